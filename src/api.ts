@@ -1,94 +1,327 @@
+import { Semaphore } from "async-mutex";
 import { Base64 } from "js-base64";
-import ky from "ky";
-import config from "@/config";
+import ky, { HTTPError, type KyInstance, TimeoutError } from "ky";
+import z from "zod";
+import config, { type MasterConfig } from "@/config";
+import { panel_api_duration, panel_circuit_open } from "@/metrics";
 import { Cache } from "./cache";
-import { to_camel } from "./utils";
-
-const cache = new Cache(config.cache.url);
-
-function storeToken(token: string, expireSec = 86400 - 1800) {
-  return cache.at("token").at(config.master.username).set(token, expireSec);
-}
-
-const api = ky.create({
-  prefixUrl: config.master.api_base,
-  timeout: 5000,
-  retry: 3,
-  hooks: {
-    beforeRequest: [
-      async (request, _) => {
-        let token = await cache.at("token").at(config.master.username).get();
-        if (!token) {
-          const data = await login(config.master.username, config.master.password);
-          if (data.code === 200 && data.body.token) {
-            token = data.body.token;
-            await storeToken(token);
+import { server_config_of, to_camel } from "./utils";
+
+const cache = new Cache(config.cache);
+
+// * expire before the panel token does
+// token:{master}:{username} -> panel token
+
+function storeToken(master: MasterConfig, token: string, expireSec = 86400 - 1800) {
+  return cache.at("token").at(master.name).at(master.username).set(token, expireSec);
+}
+
+export class PanelError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    /**
+     * `code` of the panel response, or the http status, null if no response
+     */
+    public readonly code: number | null,
+    message: string,
+    options?: ErrorOptions
+  ) {
+    super(`${endpoint}: ${message}`, options);
+    this.name = "PanelError";
+  }
+}
+
+/**
+ * Whether the panel failed as the record does not exist, e.g. a proxy deleted already.
+ */
+export function is_not_found(e: unknown) {
+  return e instanceof PanelError && (e.code === 404 || /not found/i.test(e.message));
+}
+
+/*=== Circuit breaker ===*/
+
+// consecutive outages to open the circuit
+const BREAKER_THRESHOLD = 5;
+// in milliseconds, fail fast while open, then let one request probe the panel
+const BREAKER_COOLDOWN = 30_000;
+
+class CircuitBreaker {
+  private failures = 0;
+  private opened_at = 0;
+  private probing = false;
+
+  constructor(private readonly master: string) {}
+
+  /**
+   * @throws PanelError If the circuit is open.
+   */
+  enter(endpoint: string) {
+    if (this.failures < BREAKER_THRESHOLD) return;
+    if (this.probing || Date.now() - this.opened_at < BREAKER_COOLDOWN) {
+      throw new PanelError(endpoint, null, `circuit open, frp-panel ${this.master} is unavailable`);
+    }
+    this.probing = true;
+  }
+
+  success() {
+    this.failures = 0;
+    this.probing = false;
+    panel_circuit_open.set({ master: this.master }, 0);
+  }
+
+  failure() {
+    this.failures++;
+    this.probing = false;
+    if (this.failures >= BREAKER_THRESHOLD) {
+      if (this.failures === BREAKER_THRESHOLD) console.error(`frp-panel ${this.master} is unavailable, circuit opened`);
+      this.opened_at = Date.now();
+      panel_circuit_open.set({ master: this.master }, 1);
+    }
+  }
+}
+
+/**
+ * Only outages count for the breaker, an error answered by the panel means it is up.
+ */
+function is_outage(e: unknown) {
+  if (e instanceof HTTPError) return e.response.status >= 500;
+  return e instanceof TimeoutError || e instanceof TypeError;
+}
+
+/*=== Panel ===*/
+
+interface Panel {
+  master: MasterConfig;
+  http: KyInstance;
+  breaker: CircuitBreaker;
+  /**
+   * bounds the in-flight requests, so that a burst of traffic does not flood the panel
+   */
+  limiter: Semaphore;
+  login_flight: Promise<string | null> | null;
+}
+
+const panels = new Map<string, Panel>();
+
+/**
+ * Login and cache the token, concurrent callers share one login.
+ */
+function refresh_token(panel: Panel) {
+  panel.login_flight ??= (async () => {
+    const data = await login(panel.master);
+    await storeToken(panel.master, data.body.token);
+    return data.body.token;
+  })()
+    .catch((e) => {
+      console.error(`Failed to login frp-panel ${panel.master.name}:`, e);
+      return null;
+    })
+    .finally(() => {
+      panel.login_flight = null;
+    });
+  return panel.login_flight;
+}
+
+const request_timers = new WeakMap<Request, (labels: { endpoint: string; status: string }) => void>();
+
+function endpoint_of(request: Request) {
+  const path = new URL(request.url).pathname;
+  return path.replace(/^.*?\/v1\//, "v1/");
+}
+
+function create_panel(master: MasterConfig): Panel {
+  const panel: Panel = {
+    master,
+    http: ky,
+    breaker: new CircuitBreaker(master.name),
+    limiter: new Semaphore(master.max_concurrency),
+    login_flight: null,
+  };
+  panel.http = ky.create({
+    prefixUrl: master.api_base,
+    timeout: 5000,
+    retry: 3,
+    hooks: {
+      beforeRequest: [
+        (request) => {
+          request_timers.set(request, panel_api_duration.startTimer({ master: master.name }));
+        },
+        async (request, _) => {
+          const token =
+            (await cache.at("token").at(master.name).at(master.username).get()) ?? (await refresh_token(panel));
+          if (token) {
+            request.headers.set("Authorization", `Bearer ${token}`);
           }
-        }
-        if (token) {
-          request.headers.set("Authorization", `Bearer ${token}`);
-        }
-      },
-    ],
-    afterResponse: [
-      async (_, __, response) => {
-        const json = await response.json<Wrap<null>>();
-        if (json.code === 500 && json.msg === "token invalid") {
-          const data = await login(config.master.username, config.master.password);
-          if (data.code === 200 && data.body.token) {
-            await storeToken(data.body.token);
+        },
+      ],
+      afterResponse: [
+        (request, _, response) => {
+          request_timers.get(request)?.({ endpoint: endpoint_of(request), status: response.status.toString() });
+        },
+        async (_, __, response) => {
+          let newToken = response.headers.get("X-Set-Authorization");
+          if (!newToken) newToken = response.headers.get("Set-Cookie")?.match(/frp-panel-cookie=([^;]+)/)?.[1] || null;
+          if (newToken) {
+            await storeToken(master, newToken);
           }
-        }
-        let newToken = response.headers.get("X-Set-Authorization");
-        if (!newToken) newToken = response.headers.get("Set-Cookie")?.match(/frp-panel-cookie=([^;]+)/)?.[1] || null;
-        if (newToken) {
-          await storeToken(newToken);
-        }
-      },
-    ],
-  },
+        },
+      ],
+      beforeError: [
+        (error) => {
+          request_timers.get(error.request)?.({
+            endpoint: endpoint_of(error.request),
+            status: error.response.status.toString(),
+          });
+          return error;
+        },
+      ],
+    },
+  });
+  return panel;
+}
+
+/**
+ * Get the panel of `[[master]].name`, the first master if omitted.
+ */
+function panel_of(master_name?: string) {
+  const master = config.master.find((m) => m.name === master_name) ?? config.master[0]!;
+  let panel = panels.get(master.name);
+  if (!panel) {
+    panel = create_panel(master);
+    panels.set(master.name, panel);
+  }
+  return panel;
+}
+
+/**
+ * Get the panel of the proxy, by the master recorded with it, or else the master managing its frp server.
+ * A server gone from the config is only guessed if there is a single master, never routed to another panel.
+ * @throws PanelError If the master cannot be told.
+ */
+function panel_by_server(endpoint: string, server_id: string, master?: string) {
+  const name =
+    master ?? server_config_of(server_id)?.master ?? (config.master.length === 1 ? config.master[0]!.name : undefined);
+  if (name === undefined || !config.master.some((m) => m.name === name)) {
+    throw new PanelError(endpoint, null, `no master known for frp server ${server_id}`);
+  }
+  return panel_of(name);
+}
+
+/*=== Response ===*/
+
+const schemaHead = z.object({
+  code: z.number(),
+  msg: z.string().default(""),
+  body: z
+    .object({
+      // frp-panel `RespCode`, 1 for success, omitted if unspecified
+      status: z.object({ code: z.number().default(0), message: z.string().default("") }).optional(),
+    })
+    .nullish(),
 });
 
+const STATUS_SUCCESS = 1;
+
 type Wrap<T> = {
   code: number;
   msg: string;
-  body: T & { status: { code: number; message: string } };
+  body: T;
 };
 
-export interface LoginResponse {
-  token: string;
-}
+/**
+ * Post to the panel, and validate the response.
+ * @throws PanelError If the request fails, the panel answers an error, or the body is malformed.
+ */
+async function call<S extends z.ZodType>(
+  panel: Panel,
+  endpoint: string,
+  json: unknown,
+  schema: S,
+  relogin = true
+): Promise<Wrap<z.infer<S>>> {
+  panel.breaker.enter(endpoint);
+  let raw: unknown;
+  try {
+    raw = await panel.limiter.runExclusive(() => panel.http.post(endpoint, { json }).json());
+    panel.breaker.success();
+  } catch (e) {
+    if (is_outage(e)) panel.breaker.failure();
+    else panel.breaker.success();
+    const code = e instanceof HTTPError ? e.response.status : null;
+    throw new PanelError(endpoint, code, e instanceof Error ? e.message : String(e), { cause: e });
+  }
+
+  const head = schemaHead.safeParse(raw);
+  if (!head.success) throw new PanelError(endpoint, null, `malformed response: ${z.prettifyError(head.error)}`);
+  const { code, msg } = head.data;
+  if (code === 500 && msg === "token invalid" && relogin) {
+    await refresh_token(panel);
+    return call(panel, endpoint, json, schema, false);
+  }
+  if (code !== 200) throw new PanelError(endpoint, code, msg || "request failed");
+  const status = head.data.body?.status;
+  if (status && status.code !== 0 && status.code !== STATUS_SUCCESS) {
+    throw new PanelError(endpoint, code, status.message || `status ${status.code}`);
+  }
 
-export interface Server {
-  id: string;
-  secret: string;
-  ip: string;
-  config: string;
-  comment: string;
+  const body = schema.safeParse((raw as { body?: unknown }).body ?? {});
+  if (!body.success) throw new PanelError(endpoint, code, `malformed body: ${z.prettifyError(body.error)}`);
+  return { code, msg, body: body.data };
 }
 
-export interface Client {
-  id: string;
-  secret: string;
-  config: string;
-  comment: string;
-  server_id: string;
-  stopped: boolean;
+const schemaLoginResponse = z.object({
+  token: z.string().min(1),
+});
+export type LoginResponse = z.infer<typeof schemaLoginResponse>;
+
+// protobuf JSON omits zero values, so most of the fields default
+const schemaServer = z.object({
+  id: z.string(),
+  secret: z.string().default(""),
+  ip: z.string().default(""),
+  config: z.string().default(""),
+  comment: z.string().default(""),
+});
+export type Server = z.infer<typeof schemaServer>;
+
+const schemaClient = z.object({
+  id: z.string(),
+  secret: z.string().default(""),
+  config: z.string().default(""),
+  comment: z.string().default(""),
+  server_id: z.string().default(""),
+  stopped: z.boolean().default(false),
   /**
    * contains `@{user_id}` for unique identification
    */
-  client_ids: string[];
-  ephemeral: boolean;
-  last_seen_at: number;
-}
+  client_ids: z.array(z.string()).default([]),
+  ephemeral: z.boolean().default(false),
+  last_seen_at: z.coerce.number().default(0),
+});
+export type Client = z.infer<typeof schemaClient>;
 
-export function login(username: string, password: string) {
-  return ky
-    .post("v1/auth/login", {
-      prefixUrl: config.master.api_base,
-      json: { username, password },
-    })
-    .json<Wrap<LoginResponse>>();
+export async function login(master: MasterConfig) {
+  // gated by the caller, login runs inside another request
+  const endpoint = "v1/auth/login";
+  const breaker = panel_of(master.name).breaker;
+  let raw: unknown;
+  try {
+    raw = await ky
+      .post(endpoint, {
+        prefixUrl: master.api_base,
+        json: { username: master.username, password: master.password },
+      })
+      .json();
+    breaker.success();
+  } catch (e) {
+    if (is_outage(e)) breaker.failure();
+    const code = e instanceof HTTPError ? e.response.status : null;
+    throw new PanelError(endpoint, code, e instanceof Error ? e.message : String(e), { cause: e });
+  }
+  const res = schemaHead.extend({ body: schemaLoginResponse.nullish() }).safeParse(raw);
+  if (!res.success) throw new PanelError(endpoint, null, `malformed response: ${z.prettifyError(res.error)}`);
+  if (res.data.code !== 200 || !res.data.body) throw new PanelError(endpoint, res.data.code, res.data.msg);
+  return { code: res.data.code, msg: res.data.msg, body: res.data.body };
 }
 
 interface ListParam {
@@ -97,56 +330,66 @@ interface ListParam {
   keyword?: string;
 }
 
-export function list_servers(param: ListParam = {}) {
+export function list_servers(param: ListParam = {}, master?: string) {
   const json = Object.assign({ page: 1, page_size: 8, keyword: "" }, param);
-  return api
-    .post("v1/server/list", {
-      json: { page: json.page, pageSize: json.page_size, keyword: json.keyword },
-    })
-    .json<Wrap<{ total: number; servers: Server[] }>>();
+  return call(
+    panel_of(master),
+    "v1/server/list",
+    { page: json.page, pageSize: json.page_size, keyword: json.keyword },
+    z.object({ total: z.coerce.number().default(0), servers: z.array(schemaServer).default([]) })
+  );
 }
 
-export async function list_all_servers(keyword = "") {
+/**
+ * @param master `[[master]].name`, all masters if omitted
+ */
+export async function list_all_servers(keyword = "", master?: string): Promise<Server[]> {
+  if (master === undefined) {
+    return (await Promise.all(config.master.map((m) => list_all_servers(keyword, m.name)))).flat();
+  }
   let page = 1;
   const page_size = 100;
   let total = 0;
   const result: Server[] = [];
   do {
-    const res = await list_servers({ page, page_size, keyword });
-    if (res.code === 200) {
-      total = res.body.total;
-      result.push(...res.body.servers);
-      page++;
-    } else {
-      break;
-    }
+    const res = await list_servers({ page, page_size, keyword }, master);
+    total = res.body.total;
+    result.push(...res.body.servers);
+    page++;
+    // guard against a total larger than what the panel really returns
+    if (!res.body.servers.length) break;
   } while (result.length < total);
   return result;
 }
 
-export function list_clients(param: ListParam = {}) {
+export function list_clients(param: ListParam = {}, master?: string) {
   const json = Object.assign({ page: 1, page_size: 8, keyword: "" }, param);
-  return api
-    .post("v1/client/list", {
-      json: { page: json.page, pageSize: json.page_size, keyword: json.keyword },
-    })
-    .json<Wrap<{ total: number; clients: Client[] }>>();
+  return call(
+    panel_of(master),
+    "v1/client/list",
+    { page: json.page, pageSize: json.page_size, keyword: json.keyword },
+    z.object({ total: z.coerce.number().default(0), clients: z.array(schemaClient).default([]) })
+  );
 }
 
-export async function list_all_clients(keyword = "") {
+/**
+ * @param master `[[master]].name`, all masters if omitted
+ */
+export async function list_all_clients(keyword = "", master?: string): Promise<Client[]> {
+  if (master === undefined) {
+    return (await Promise.all(config.master.map((m) => list_all_clients(keyword, m.name)))).flat();
+  }
   let page = 1;
   const page_size = 100;
   let total = 0;
   const result: Client[] = [];
   do {
-    const res = await list_clients({ page, page_size, keyword });
-    if (res.code === 200) {
-      total = res.body.total;
-      result.push(...res.body.clients);
-      page++;
-    } else {
-      break;
-    }
+    const res = await list_clients({ page, page_size, keyword }, master);
+    total = res.body.total;
+    result.push(...res.body.clients);
+    page++;
+    // guard against a total larger than what the panel really returns
+    if (!res.body.clients.length) break;
   } while (result.length < total);
   return result;
 }
@@ -154,6 +397,10 @@ export async function list_all_clients(keyword = "") {
 export interface CreateConfigParam<T> {
   client_id: string;
   server_id: string;
+  /**
+   * `[[master]].name` of the server, looked up by the server if omitted
+   */
+  master?: string;
   /**
    * camel case
    */
@@ -161,18 +408,20 @@ export interface CreateConfigParam<T> {
   overwrite?: boolean;
 }
 
-export function create_proxy_config<T>(param: CreateConfigParam<T>) {
+export async function create_proxy_config<T>(param: CreateConfigParam<T>) {
+  const endpoint = "v1/proxy/create_config";
   const configBase64 = Base64.encode(JSON.stringify(param.config));
-  return api
-    .post("v1/proxy/create_config", {
-      json: {
-        clientId: param.client_id,
-        serverId: param.server_id,
-        config: configBase64,
-        overwrite: param.overwrite,
-      },
-    })
-    .json<Wrap<{}>>();
+  return call(
+    panel_by_server(endpoint, param.server_id, param.master),
+    endpoint,
+    {
+      clientId: param.client_id,
+      serverId: param.server_id,
+      config: configBase64,
+      overwrite: param.overwrite,
+    },
+    z.object({})
+  );
 }
 
 export interface ProxyConfigUniqueKey {
@@ -182,65 +431,90 @@ export interface ProxyConfigUniqueKey {
   client_id: string;
   server_id: string;
   name: string;
+  /**
+   * `[[master]].name` the proxy lives on, keys recorded by older versions have none
+   */
+  master?: string;
 }
 
-export function delete_proxy_config(params: ProxyConfigUniqueKey) {
-  return api
-    .post("v1/proxy/delete_config", {
-      json: to_camel(params),
-    })
-    .json<Wrap<{}>>();
+export async function delete_proxy_config(params: ProxyConfigUniqueKey) {
+  const endpoint = "v1/proxy/delete_config";
+  const { master, ...key } = params;
+  return call(panel_by_server(endpoint, key.server_id, master), endpoint, to_camel(key), z.object({}));
 }
 
-interface ProxyConfig {
-  id: number;
-  name: string;
-  type: string;
+const schemaProxyConfig = z.object({
+  id: z.coerce.number().default(0),
+  name: z.string(),
+  type: z.string().default(""),
   /**
    * should contains `@{user_id}` for unique identification
    */
-  client_id: string;
-  server_id: string;
-  config: string;
-  origin_client_id: string;
-  stopped: boolean;
-}
+  client_id: z.string(),
+  server_id: z.string(),
+  config: z.string().default(""),
+  origin_client_id: z.string().default(""),
+  stopped: z.boolean().default(false),
+});
+export type ProxyConfig = z.infer<typeof schemaProxyConfig>;
 
-export function list_proxy_configs(param: ListParam = {}) {
+/**
+ * A proxy config with the `[[master]].name` it is listed from.
+ */
+export type ListedProxyConfig = ProxyConfig & { master: string };
+
+export function list_proxy_configs(param: ListParam = {}, master?: string) {
   const json = Object.assign({ page: 1, page_size: 8, keyword: "" }, param);
-  return api
-    .post("v1/proxy/list_configs", { json: to_camel(json) })
-    .json<Wrap<{ total: number; proxy_configs?: ProxyConfig[] }>>();
+  return call(
+    panel_of(master),
+    "v1/proxy/list_configs",
+    to_camel(json),
+    z.object({ total: z.coerce.number().default(0), proxy_configs: z.array(schemaProxyConfig).default([]) })
+  );
 }
 
-export async function list_all_proxy_configs(keyword = "") {
+/**
+ * @param master `[[master]].name`, all masters if omitted
+ */
+export async function list_all_proxy_configs(keyword = "", master?: string): Promise<ListedProxyConfig[]> {
+  if (master === undefined) {
+    return (await Promise.all(config.master.map((m) => list_all_proxy_configs(keyword, m.name)))).flat();
+  }
   let page = 1;
   const page_size = 100;
   let total = 0;
-  const result: ProxyConfig[] = [];
+  const result: ListedProxyConfig[] = [];
   do {
-    const res = await list_proxy_configs({ page, page_size, keyword });
-    if (res.code === 200) {
-      total = res.body.total;
-      result.push(...(res.body.proxy_configs ?? []));
-      page++;
-    } else {
-      break;
-    }
+    const res = await list_proxy_configs({ page, page_size, keyword }, master);
+    total = res.body.total;
+    result.push(...res.body.proxy_configs.map((pc) => ({ ...pc, master })));
+    page++;
+    // guard against a total larger than what the panel really returns
+    if (!res.body.proxy_configs.length) break;
   } while (result.length < total);
   return result;
 }
 
-export interface WorkingStatus {
-  name: string;
-  type: string;
-  status: string;
-  err: string;
-  remote_addr: string;
-}
+const schemaWorkingStatus = z.object({
+  name: z.string().default(""),
+  type: z.string().default(""),
+  status: z.string().default(""),
+  err: z.string().default(""),
+  remote_addr: z.string().default(""),
+});
+export type WorkingStatus = z.infer<typeof schemaWorkingStatus>;
 
-export function get_proxy_config(param: ProxyConfigUniqueKey) {
-  return api
-    .post("v1/proxy/get_config", { json: to_camel(param) })
-    .json<Wrap<{ proxy_config: ProxyConfig; working_status: WorkingStatus }>>();
+export async function get_proxy_config(param: ProxyConfigUniqueKey) {
+  const endpoint = "v1/proxy/get_config";
+  const { master, ...key } = param;
+  return call(
+    panel_by_server(endpoint, key.server_id, master),
+    endpoint,
+    to_camel(key),
+    z.object({
+      proxy_config: schemaProxyConfig,
+      // missing until frps reports the proxy
+      working_status: schemaWorkingStatus.default(schemaWorkingStatus.parse({})),
+    })
+  );
 }
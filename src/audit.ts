@@ -0,0 +1,110 @@
+import { Cache } from "@/cache";
+import CONFIG from "@/config";
+
+const cache = new Cache(CONFIG.cache);
+
+// * append only, trimmed by `audit.retention`
+// audit -> stream of { data: AuditRecord }, the entry id `{ms}-{seq}` is the cursor
+
+export type AuditAction = "create" | "extend" | "update" | "delete" | "expire" | "migrate" | "reconcile";
+
+export interface AuditRecord {
+  id: string;
+  /**
+   * seconds
+   */
+  timestamp: number;
+  action: AuditAction;
+  /**
+   * token name, or the background job, e.g. `cleanup`, `reconciler`
+   */
+  caller: string;
+  traffic_id: string;
+  node_name: string | null;
+  server_id: string | null;
+  /**
+   * name:port/service_type -> remote_addr
+   */
+  ports: Record<string, string> | null;
+  outcome: "success" | "failure";
+  /**
+   * the error on failure, or what is done
+   */
+  detail?: string;
+}
+
+const KEY_AUDIT = cache.at("audit");
+
+/**
+ * Append the record, never throws.
+ */
+export async function audit(record: Omit<AuditRecord, "id" | "timestamp">) {
+  if (!CONFIG.audit.enable) return;
+  const now = Date.now();
+  const full = { ...record, timestamp: Math.floor(now / 1000) };
+  try {
+    await KEY_AUDIT.xadd({ data: JSON.stringify(full) }, now - CONFIG.audit.retention * 1000);
+  } catch (e) {
+    console.error(
+      `Error recording audit: ${[`action=${record.action}`, `traffic_id=${record.traffic_id}`, `outcome=${record.outcome}`].join(", ")}`,
+      e
+    );
+  }
+}
+
+export interface AuditQuery {
+  traffic_id?: string;
+  node_name?: string;
+  /**
+   * seconds, inclusive
+   */
+  since?: number;
+  /**
+   * seconds, inclusive
+   */
+  until?: number;
+  /**
+   * `next` of the previous page, records after it
+   */
+  after?: string;
+  /**
+   * hide records not visible to the caller
+   */
+  authorize?: (record: AuditRecord) => boolean;
+  limit?: number;
+}
+
+const SCAN_BATCH = 500;
+// a call scans at most this many batches, so that a filter matching nothing does not read the whole stream
+const SCAN_MAX_BATCHES = 20;
+
+/**
+ * Read the records in time order.
+ * A page may have fewer than `limit` records, or none, if the scan is cut short; keep following `next`.
+ * @returns The matched records, and the cursor of the next page, null if no more.
+ */
+export async function query_audit(query: AuditQuery = {}) {
+  const limit = Math.max(1, query.limit ?? 100);
+  let start = query.after ? `(${query.after}` : query.since !== undefined ? `${query.since * 1000}` : "-";
+  const end = query.until !== undefined ? `${query.until * 1000 + 999}` : "+";
+  const records: AuditRecord[] = [];
+  let last: string | null = null;
+  for (let batch = 0; batch < SCAN_MAX_BATCHES; batch++) {
+    const entries = await KEY_AUDIT.xrange(start, end, SCAN_BATCH);
+    for (const entry of entries) {
+      start = `(${entry.id}`;
+      last = entry.id;
+      const record = entry.fields.data?.parseJSON<Omit<AuditRecord, "id">>();
+      if (!record) continue;
+      if (query.traffic_id !== undefined && record.traffic_id !== query.traffic_id) continue;
+      if (query.node_name !== undefined && record.node_name !== query.node_name) continue;
+      const full = { id: entry.id, ...record };
+      if (query.authorize && !query.authorize(full)) continue;
+      records.push(full);
+      if (records.length >= limit) return { records, next: entry.id };
+    }
+    if (entries.length < SCAN_BATCH) return { records, next: null };
+  }
+  // resume after the last scanned entry
+  return { records, next: last };
+}
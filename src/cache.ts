@@ -1,46 +1,63 @@
-import { createClient } from "redis";
+import { type CacheStorage, MemoryStorage, RedisStorage, type Script, type StreamEntry } from "@/storage";
+
+let memory: MemoryStorage | null = null;
+
+/**
+ * The in-memory storage is shared by all the `Cache` of the process.
+ */
+function memory_storage() {
+  if (!memory) {
+    console.warn("Cache: using in-memory storage, state is lost on restart and cannot be shared by replicas");
+    memory = new MemoryStorage();
+  }
+  return memory;
+}
 
 export class Cache {
-  private client: ReturnType<typeof createClient> | null = null;
-  private enabled = false;
-  constructor(url?: string) {
-    if (url) {
-      this.enabled = true;
-      this.client = createClient({ url });
-    }
+  readonly storage: CacheStorage;
+  /**
+   * @param options Redis is used if enabled with an url, otherwise the in-memory storage.
+   */
+  constructor(options: { enable?: boolean; url?: string } = {}) {
+    this.storage = options.enable !== false && options.url ? new RedisStorage(options.url) : memory_storage();
   }
 
   async check() {
-    if (!this.enabled) return false;
     try {
-      const conn = await this.conn();
-      if (conn) {
-        await conn.ping();
-        return true;
-      }
-      return false;
+      await this.storage.ping();
+      return true;
     } catch (error) {
       console.error("Cache connection error:", error);
       return false;
     }
   }
 
-  async conn() {
-    if (this.client) {
-      if (!this.client.isOpen) {
-        await this.client.connect();
-      }
-      return this.client;
-    }
-    if (!this.enabled) {
-      return null;
-    }
-    throw new Error("Cache client is not initialized.");
+  /**
+   * Call `handler` with the expired keys matching the glob `pattern`.
+   * Expiry is only noticed when the storage actually drops the key, which may lag the TTL a bit.
+   */
+  async on_expired(pattern: string | CacheKey, handler: (key: string) => void) {
+    await this.storage.subscribe_expired(pattern.toString(), handler);
   }
 
   at(key: string): CacheKey {
     return new CacheKey(this).at(key);
   }
+
+  /**
+   * Run a script atomically.
+   * @param script The script, see `define_script`.
+   * @param keys Keys passed as `KEYS`.
+   * @param args Arguments passed as `ARGV`.
+   * @returns The script reply.
+   */
+  async eval(script: Script, keys: (string | CacheKey)[], args: (string | number)[] = []): Promise<unknown> {
+    return this.storage.eval(
+      script,
+      keys.map((k) => k.toString()),
+      args.map((a) => a.toString())
+    );
+  }
 }
 
 export class CacheKey {
@@ -70,27 +87,23 @@ export class CacheKey {
     return this.parts.join(":");
   }
 
+  toString(): string {
+    return this.build_key();
+  }
+
   /**
    * Get keys that match the pattern of the constructed key with a wildcard.
+   * Uses `SCAN` so that a large keyspace does not block the server.
    */
   async keys(): Promise<string[]> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const pattern = this.build_key();
-      return await conn.keys(pattern);
-    }
-    return [];
+    return this.client.storage.keys(this.build_key());
   }
 
   /**
    * Delete the cache entry for the constructed key.
    */
   async del(): Promise<void> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      await conn.del(key);
-    }
+    await this.client.storage.del(this.build_key());
   }
 
   /**
@@ -98,13 +111,7 @@ export class CacheKey {
    * @returns A boolean indicating whether the cache entry exists.
    */
   async exists(): Promise<boolean> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      const result = await conn.exists(key);
-      return result > 0;
-    }
-    return false;
+    return this.client.storage.exists(this.build_key());
   }
 
   /**
@@ -112,11 +119,7 @@ export class CacheKey {
    * @param sec The expiration time in seconds.
    */
   async expire(sec: number): Promise<void> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      await conn.expire(key, sec);
-    }
+    await this.client.storage.expire(this.build_key(), sec);
   }
 
   /**
@@ -124,13 +127,7 @@ export class CacheKey {
    * @returns The TTL in seconds
    */
   async ttl(): Promise<number | null> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      const ttl = await conn.ttl(key);
-      return ttl;
-    }
-    return null;
+    return this.client.storage.ttl(this.build_key());
   }
 
   /**
@@ -138,12 +135,7 @@ export class CacheKey {
    * @returns The value stored in the cache for the constructed key, or null if not found.
    */
   async get(): Promise<string | null> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      return await conn.get(key);
-    }
-    return null;
+    return this.client.storage.get(this.build_key());
   }
 
   /**
@@ -152,15 +144,7 @@ export class CacheKey {
    * @param expireSec Optional expiration time in seconds.
    */
   async set(value: string, expireSec?: number): Promise<void> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      if (expireSec) {
-        await conn.setEx(key, expireSec, value);
-      } else {
-        await conn.set(key, value);
-      }
-    }
+    await this.client.storage.set(this.build_key(), value, expireSec);
   }
 
   /**
@@ -169,12 +153,23 @@ export class CacheKey {
    * @returns The value associated with the specified field, or null if not found.
    */
   async hget(field: string): Promise<string | null> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      return await conn.hGet(key, field);
-    }
-    return null;
+    return this.client.storage.hget(this.build_key(), field);
+  }
+
+  /**
+   * Retrieve all fields and values of a hash stored in the cache for the constructed key.
+   * @returns The fields and values of the hash, empty if not found.
+   */
+  async hgetall(): Promise<Record<string, string>> {
+    return this.client.storage.hgetall(this.build_key());
+  }
+
+  /**
+   * Get the number of fields in a hash stored in the cache for the constructed key.
+   * @returns The number of fields, 0 if not found.
+   */
+  async hlen(): Promise<number> {
+    return this.client.storage.hlen(this.build_key());
   }
 
   /**
@@ -183,11 +178,7 @@ export class CacheKey {
    * @param value The value to set for the specified field.
    */
   async hset(field: string, value: string): Promise<void> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      await conn.hSet(key, field, value);
-    }
+    await this.client.storage.hset(this.build_key(), field, value);
   }
 
   /**
@@ -195,10 +186,27 @@ export class CacheKey {
    * @param field The field within the hash to delete.
    */
   async hdel(field: string): Promise<void> {
-    const conn = await this.client.conn();
-    if (conn) {
-      const key = this.build_key();
-      await conn.hDel(key, field);
-    }
+    await this.client.storage.hdel(this.build_key(), field);
+  }
+
+  /**
+   * Append an entry to a stream stored in the cache for the constructed key.
+   * @param fields The fields of the entry.
+   * @param min_time Optional, entries older than it in milliseconds are trimmed.
+   * @returns The id of the entry.
+   */
+  async xadd(fields: Record<string, string>, min_time?: number): Promise<string> {
+    return this.client.storage.xadd(this.build_key(), fields, min_time);
+  }
+
+  /**
+   * Read entries of a stream stored in the cache for the constructed key in order.
+   * @param start The first id, `-` for the oldest, `(` prefixed to exclude it.
+   * @param end The last id, `+` for the newest.
+   * @param count Max entries to read.
+   * @returns The entries, empty if not found.
+   */
+  async xrange(start: string, end: string, count: number): Promise<StreamEntry[]> {
+    return this.client.storage.xrange(this.build_key(), start, end, count);
   }
 }
@@ -1,31 +1,463 @@
 import fs from "node:fs";
+import { basename, dirname } from "node:path";
 import toml from "toml";
+import z from "zod";
 
-export interface Config {
-  app: {
-    port: number;
-    auth_token: string;
+const port = z.number().int().min(1).max(65535);
+
+/**
+ * frp proxy `transport` options
+ */
+export const schemaTransport = z.object({
+  /**
+   * e.g. `512KB`, `10MB`
+   */
+  bandwidth_limit: z
+    .string()
+    .regex(/^\d+(KB|MB)$/, "should be like `512KB` or `10MB`")
+    .optional(),
+  /**
+   * `server` enforces the limit on frps, so a player cannot lift it by tampering frpc
+   */
+  bandwidth_limit_mode: z.enum(["client", "server"]).optional(),
+  use_encryption: z.boolean().optional(),
+  use_compression: z.boolean().optional(),
+  proxy_protocol_version: z.enum(["v1", "v2"]).optional(),
+});
+
+/**
+ * limits enforced on new and extended traffic, unlimited if omitted
+ */
+export const schemaQuota = z.object({
+  /**
+   * active traffic of a k8s node
+   */
+  max_traffic_per_node: z.number().int().nonnegative().optional(),
+  max_ports_per_traffic: z.number().int().nonnegative().optional(),
+  /**
+   * remote ports in use of a frp server, the rest of `port_range` is kept as headroom
+   */
+  max_ports_per_server: z.number().int().nonnegative().optional(),
+  /**
+   * in seconds, the time left from now to `created_at + lifetime`
+   */
+  max_lifetime: z.number().int().positive().optional(),
+});
+
+const schemaMaster = z.object({
+  /**
+   * referred by `[[server]].master`
+   */
+  name: z
+    .string()
+    .regex(/^[\w.-]+$/, "only letters, digits, `_`, `-` and `.` are allowed")
+    .default("default"),
+  api_base: z.url(),
+  username: z.string().min(1),
+  password: z.string().min(1),
+  /**
+   * in-flight requests to the panel, the rest wait in line
+   */
+  max_concurrency: z.number().int().positive().default(8),
+});
+
+const schemaConfig = z
+  .object({
+    app: z.object({
+      port: port.default(3000),
+      /**
+       * legacy single token with all scopes, prefer `[[token]]`
+       */
+      auth_token: z.string().min(1).optional(),
+      /**
+       * in seconds
+       */
+      cleanup_interval: z.number().int().positive().default(60),
+      /**
+       * how to pick a frp server for new traffic
+       */
+      server_strategy: z.enum(["random", "least-occupied", "weighted", "sticky"]).default("random"),
+      /**
+       * in seconds, reconcile frp-panel proxies with the cache periodically, 0 to disable
+       */
+      reconcile_interval: z.number().int().nonnegative().default(0),
+      /**
+       * serve `/metrics` without a token, otherwise a token of `read` scope is required
+       */
+      public_metrics: z.boolean().default(false),
+      /**
+       * in seconds, tolerated clock difference of the k8s nodes, a `created_at` further in the future is rejected
+       */
+      clock_skew: z.number().int().nonnegative().default(60),
+    }),
+    cache: z
+      .object({
+        enable: z.boolean().default(true),
+        url: z.string().min(1).optional(),
+      })
+      .default({ enable: true }),
+    quota: schemaQuota.default({}),
+    audit: z
+      .object({
+        enable: z.boolean().default(true),
+        /**
+         * in seconds, older records are trimmed
+         */
+        retention: z
+          .number()
+          .int()
+          .positive()
+          .default(30 * 86400),
+      })
+      .default({ enable: true, retention: 30 * 86400 }),
+    provision: z
+      .object({
+        /**
+         * provision new traffic in background and reply 202 by default, overridden by `?async=` of the request
+         */
+        async: z.boolean().default(false),
+        /**
+         * polls of the proxy status before giving up as not ready
+         */
+        wait_ready_retry: z.number().int().positive().default(5),
+        /**
+         * in milliseconds
+         */
+        wait_ready_interval: z.number().int().positive().default(500),
+        /**
+         * in seconds, how long the pending and failed state of async provisioning is kept
+         */
+        state_ttl: z.number().int().positive().default(600),
+      })
+      .default({ async: false, wait_ready_retry: 5, wait_ready_interval: 500, state_ttl: 600 }),
     /**
-     * in seconds
+     * `[[master]]`, or a single legacy `[master]` table
      */
-    cleanup_interval: number;
-  };
-  cache: {
-    url: string;
-  };
-  master: {
-    api_base: string;
-    username: string;
-    password: string;
+    master: z.union([schemaMaster.transform((m) => [m]), z.array(schemaMaster).min(1)]),
+    server: z
+      .array(
+        z.object({
+          node_name: z.string().regex(/^[\w.-]+$/, "only letters, digits, `_`, `-` and `.` are allowed"),
+          port_range: z.tuple([port, port]),
+          remote_addr: z.string().min(1),
+          /**
+           * `[[master]].name` managing the server, the first master if omitted
+           */
+          master: z.string().optional(),
+          /**
+           * frps `subDomainHost`, used to build the url of http / https proxies
+           */
+          subdomain_host: z.string().min(1).optional(),
+          vhost_http_port: port.default(80),
+          vhost_https_port: port.default(443),
+          /**
+           * frps bind port, used by STCP / XTCP visitors
+           */
+          bind_port: port.default(7000),
+          /**
+           * frps auth token put in the visitor config, omitted if not set
+           */
+          visitor_token: z.string().min(1).optional(),
+          /**
+           * used by `weighted` strategy
+           */
+          weight: z.number().nonnegative().default(1),
+          /**
+           * default transport options of the proxies, overridden per service
+           */
+          transport: schemaTransport.optional(),
+        })
+      )
+      .min(1),
+    token: z
+      .array(
+        z.object({
+          /**
+           * caller identity shown in logs
+           */
+          name: z.string().min(1),
+          /**
+           * `sha256:<hex>` of the bearer token
+           */
+          hash: z.string().regex(/^(sha256:)?[0-9a-f]{64}$/i, "should be `sha256:<hex>`"),
+          scopes: z.array(z.enum(["read", "create", "delete", "admin"])).min(1),
+          /**
+           * k8s node names the token may touch, all if omitted
+           */
+          node_names: z.array(z.string()).optional(),
+          /**
+           * `[[server]].node_name` the token may use, all if omitted
+           */
+          servers: z.array(z.string()).optional(),
+          /**
+           * override the global quota for the token
+           */
+          quota: schemaQuota.optional(),
+        })
+      )
+      .default([]),
+    webhook: z
+      .array(
+        z.object({
+          url: z.url(),
+          /**
+           * HMAC-SHA256 key to sign the payload
+           */
+          secret: z.string().min(1),
+          /**
+           * subscribed event types, all if omitted
+           */
+          events: z
+            .array(
+              z.enum([
+                "traffic.created",
+                "traffic.extended",
+                "traffic.updated",
+                "traffic.deleted",
+                "traffic.expired",
+                "traffic.failed",
+                "traffic.migrated",
+              ])
+            )
+            .optional(),
+          /**
+           * in milliseconds
+           */
+          timeout: z.number().int().positive().default(5000),
+          max_attempts: z.number().int().positive().default(10),
+        })
+      )
+      .default([]),
+  })
+  .superRefine((config, ctx) => {
+    config.server.forEach((sc, i) => {
+      if (sc.port_range[0] > sc.port_range[1]) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["server", i, "port_range"],
+          message: `start ${sc.port_range[0]} is greater than end ${sc.port_range[1]}`,
+        });
+      }
+      const dup = config.server.findIndex((other) => other.node_name === sc.node_name);
+      if (dup !== i) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["server", i, "node_name"],
+          message: `duplicated with server[${dup}]: ${sc.node_name}`,
+        });
+      }
+    });
+    const server_names = new Set(config.server.map((sc) => sc.node_name));
+    config.token.forEach((t, i) => {
+      const dup = config.token.findIndex((other) => other.name === t.name);
+      if (dup !== i) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["token", i, "name"],
+          message: `duplicated with token[${dup}]: ${t.name}`,
+        });
+      }
+      for (const s of t.servers ?? []) {
+        if (!server_names.has(s)) {
+          ctx.addIssue({ code: "custom", path: ["token", i, "servers"], message: `unknown server: ${s}` });
+        }
+      }
+    });
+    if (!config.app.auth_token && !config.token.length) {
+      ctx.addIssue({ code: "custom", path: ["token"], message: "at least one token or `app.auth_token` is required" });
+    }
+    config.master.forEach((m, i) => {
+      const dup = config.master.findIndex((other) => other.name === m.name);
+      if (dup !== i) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["master", i, "name"],
+          message: `duplicated with master[${dup}]: ${m.name}`,
+        });
+      }
+    });
+    const master_names = new Set(config.master.map((m) => m.name));
+    config.server.forEach((sc, i) => {
+      if (sc.master !== undefined && !master_names.has(sc.master)) {
+        ctx.addIssue({ code: "custom", path: ["server", i, "master"], message: `unknown master: ${sc.master}` });
+      }
+    });
+  })
+  .transform((config) => ({
+    ...config,
+    server: config.server.map((sc) => ({ ...sc, master: sc.master ?? config.master[0]!.name })),
+  }));
+
+export type Config = z.infer<typeof schemaConfig>;
+export type ServerConfig = Config["server"][number];
+export type MasterConfig = Config["master"][number];
+export type WebhookConfig = Config["webhook"][number];
+export type TransportConfig = z.infer<typeof schemaTransport>;
+export type QuotaConfig = z.infer<typeof schemaQuota>;
+
+export class ConfigError extends Error {
+  constructor(
+    public readonly path: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Path of the config file, from `--config <path>`, `$CONFIG_PATH` or `config.toml`.
+ */
+export const CONFIG_PATH = (() => {
+  const i = process.argv.indexOf("--config");
+  if (i >= 0 && process.argv[i + 1]) return process.argv[i + 1]!;
+  return process.env.CONFIG_PATH || "config.toml";
+})();
+
+/**
+ * Secrets which can be overridden by environment variables.
+ */
+function apply_env(raw: Record<string, unknown>) {
+  const env = process.env;
+  const is_table = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+  const section = (name: string) => {
+    const table = raw[name];
+    if (is_table(table)) return table;
+    const created: Record<string, unknown> = {};
+    raw[name] = created;
+    return created;
   };
-  server: {
-    node_name: string;
-    port_range: [number, number];
-    remote_addr: string;
-  }[];
+  if (Array.isArray(raw.master)) {
+    // FRP_CONTROLLER_MASTER_<NAME>_PASSWORD for `[[master]]`, the unnamed one for the first master
+    raw.master.forEach((m: unknown, i) => {
+      if (!is_table(m)) return;
+      const name = String(m.name ?? "default")
+        .toUpperCase()
+        .replace(/\W/g, "_");
+      const password =
+        env[`FRP_CONTROLLER_MASTER_${name}_PASSWORD`] ?? (i ? undefined : env.FRP_CONTROLLER_MASTER_PASSWORD);
+      if (password) m.password = password;
+    });
+  } else if (env.FRP_CONTROLLER_MASTER_PASSWORD) section("master").password = env.FRP_CONTROLLER_MASTER_PASSWORD;
+  if (env.FRP_CONTROLLER_AUTH_TOKEN) section("app").auth_token = env.FRP_CONTROLLER_AUTH_TOKEN;
+  if (env.FRP_CONTROLLER_REDIS_URL) section("cache").url = env.FRP_CONTROLLER_REDIS_URL;
+  return raw;
+}
+
+function format_issues(error: z.ZodError) {
+  return error.issues
+    .map((issue) => {
+      const path = issue.path
+        .map((p, i) => (typeof p === "number" ? `[${p}]` : `${i ? "." : ""}${String(p)}`))
+        .join("");
+      return `  - ${path || "(root)"}: ${issue.message}`;
+    })
+    .join("\n");
 }
 
-const content = fs.readFileSync("config.toml", "utf-8");
+/**
+ * Read, parse and validate the config file.
+ * @throws {ConfigError} With readable error paths if the config is invalid.
+ */
+export function load_config(path = CONFIG_PATH): Config {
+  let raw: Record<string, unknown>;
+  try {
+    raw = toml.parse(fs.readFileSync(path, "utf-8"));
+  } catch (e) {
+    // a toml syntax error tells where
+    const where = e instanceof Error && "line" in e && "column" in e ? ` (line ${e.line}, column ${e.column})` : "";
+    throw new ConfigError(path, `cannot parse ${path}${where}: ${e instanceof Error ? e.message : e}`);
+  }
+  const result = schemaConfig.safeParse(apply_env(raw));
+  if (!result.success) {
+    throw new ConfigError(path, `invalid config ${path}:\n${format_issues(result.error)}`);
+  }
+  return result.data;
+}
 
-export const config = toml.parse(content) as Config;
+export const config = (() => {
+  try {
+    return load_config();
+  } catch (e) {
+    console.error(e instanceof ConfigError ? e.message : e);
+    process.exit(1);
+  }
+})();
 export default config;
+
+/*=== Reload ===*/
+
+/**
+ * Sections which are bound at startup, changes to them are ignored until restart.
+ */
+const RESTART_REQUIRED = ["cache", "master"] as const;
+
+type ReloadListener = (next: Config, prev: Config) => void;
+
+const reload_listeners: ReloadListener[] = [];
+
+/**
+ * Register a listener called after the config is reloaded.
+ */
+export function on_reload(listener: ReloadListener) {
+  reload_listeners.push(listener);
+}
+
+/**
+ * Reload the config file and swap it in place, so that every module sees the new config at once.
+ * The current config is kept if the new one is invalid.
+ * @returns Whether the config is reloaded.
+ */
+export function reload_config(path = CONFIG_PATH) {
+  let next: Config;
+  try {
+    next = load_config(path);
+  } catch (e) {
+    console.error(`Keep current config, ${e instanceof ConfigError ? e.message : e}`);
+    return false;
+  }
+  const prev = structuredClone(config);
+  for (const key of RESTART_REQUIRED) {
+    if (JSON.stringify(next[key]) !== JSON.stringify(prev[key])) {
+      console.warn(`Config section [${key}] changed, restart to apply it`);
+      Object.assign(next, { [key]: prev[key] });
+    }
+  }
+  if (next.app.port !== prev.app.port) {
+    console.warn("Config app.port changed, restart to apply it");
+    next.app.port = prev.app.port;
+  }
+  Object.assign(config, next);
+  for (const listener of reload_listeners) {
+    try {
+      listener(config, prev);
+    } catch (e) {
+      console.error("Error applying reloaded config:", e);
+    }
+  }
+  console.info(
+    `Config reloaded: ${[`path=${path}`, `servers=${config.server.map((sc) => sc.node_name).join(",")}`].join(", ")}`
+  );
+  return true;
+}
+
+/**
+ * Reload the config on `SIGHUP` or when the config file changes.
+ */
+export function watch_config(path = CONFIG_PATH) {
+  process.on("SIGHUP", () => reload_config(path));
+  // watch the directory, editors and k8s configmaps replace the file rather than writing it
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  try {
+    fs.watch(dirname(path), (_, filename) => {
+      if (filename && filename !== basename(path) && !filename.startsWith("..")) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        if (fs.existsSync(path)) reload_config(path);
+      }, 500);
+    });
+  } catch (e) {
+    console.error(`Cannot watch ${path}, reload with SIGHUP instead:`, e);
+  }
+}
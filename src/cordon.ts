@@ -0,0 +1,46 @@
+import { Cache } from "@/cache";
+import CONFIG from "@/config";
+
+const cache = new Cache(CONFIG.cache);
+
+// * no expire, survives restarts
+// cordon -> hash { [server node_name]: CordonInfo }
+
+export interface CordonInfo {
+  reason: string;
+  /**
+   * caller identity
+   */
+  by: string;
+  /**
+   * seconds
+   */
+  at: number;
+}
+
+/**
+ * Stop choosing the server for new traffic, existing traffic is kept.
+ */
+export async function cordon_server(node_name: string, reason = "", by = "-") {
+  const info: CordonInfo = { reason, by, at: Math.floor(Date.now() / 1000) };
+  await cache.at("cordon").hset(node_name, JSON.stringify(info));
+  console.log(`Cordoned server: ${[`node_name=${node_name}`, `reason=${reason}`, `caller=${by}`].join(", ")}`);
+  return info;
+}
+
+export async function uncordon_server(node_name: string, by = "-") {
+  await cache.at("cordon").hdel(node_name);
+  console.log(`Uncordoned server: ${[`node_name=${node_name}`, `caller=${by}`].join(", ")}`);
+}
+
+/**
+ * @returns server node_name -> CordonInfo
+ */
+export async function list_cordoned(): Promise<Map<string, CordonInfo>> {
+  const result = new Map<string, CordonInfo>();
+  for (const [node_name, data] of Object.entries(await cache.at("cordon").hgetall())) {
+    const info = data.parseJSON<CordonInfo>();
+    if (info) result.set(node_name, info);
+  }
+  return result;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { SCRIPT_CLAIM, SCRIPT_RELEASE } from "@/domains";
+import { backends, run, test_keys } from "@/test/backends";
+
+for (const b of backends()) {
+  describe(`domains scripts (${b.name})`, () => {
+    test("claim all or nothing", async () => {
+      const k = test_keys("domain");
+      expect(await run(b, SCRIPT_CLAIM, [k.domain], ["t1", "a.example.com", "b.example.com"])).toBe("");
+      // claiming again by the owner is fine
+      expect(await run(b, SCRIPT_CLAIM, [k.domain], ["t1", "a.example.com"])).toBe("");
+      expect(await run(b, SCRIPT_CLAIM, [k.domain], ["t2", "c.example.com", "b.example.com"])).toBe("b.example.com");
+      expect(await b.storage.hgetall(k.domain)).toEqual({ "a.example.com": "t1", "b.example.com": "t1" });
+    });
+
+    test("release only the domains owned by the traffic", async () => {
+      const k = test_keys("domain");
+      await run(b, SCRIPT_CLAIM, [k.domain], ["t1", "a.example.com"]);
+      await run(b, SCRIPT_CLAIM, [k.domain], ["t2", "b.example.com"]);
+      await run(b, SCRIPT_RELEASE, [k.domain], ["t1", "a.example.com", "b.example.com"]);
+      expect(await b.storage.hgetall(k.domain)).toEqual({ "b.example.com": "t2" });
+    });
+  });
+}
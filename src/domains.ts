@@ -0,0 +1,88 @@
+import { Cache } from "@/cache";
+import CONFIG from "@/config";
+import { define_script } from "@/storage";
+
+const cache = new Cache(CONFIG.cache);
+
+// * no expire, cleanup if working deleted
+// domain -> hash { [domain]: traffic_id }
+// domain is the fqdn, or `{subdomain}@{server_id}` if the server has no `subdomain_host`
+
+const KEY_DOMAIN = cache.at("domain");
+
+// KEYS: domain
+// ARGV: traffic_id, ...domains
+// claim all or nothing, returns the first domain owned by other traffic, or empty string
+export const SCRIPT_CLAIM = define_script(
+  `
+for i = 2, #ARGV do
+  local owner = redis.call("HGET", KEYS[1], ARGV[i])
+  if owner and owner ~= ARGV[1] then
+    return ARGV[i]
+  end
+end
+for i = 2, #ARGV do
+  redis.call("HSET", KEYS[1], ARGV[i], ARGV[1])
+end
+return ""
+`,
+  (db, [key], [traffic_id, ...domains]) => {
+    const conflict = domains.find((d) => (db.hget(key!, d) ?? traffic_id) !== traffic_id);
+    if (conflict) return conflict;
+    for (const d of domains) db.hset(key!, d, traffic_id!);
+    return "";
+  }
+);
+
+// KEYS: domain
+// ARGV: traffic_id, ...domains
+export const SCRIPT_RELEASE = define_script(
+  `
+for i = 2, #ARGV do
+  if redis.call("HGET", KEYS[1], ARGV[i]) == ARGV[1] then
+    redis.call("HDEL", KEYS[1], ARGV[i])
+  end
+end
+return 1
+`,
+  (db, [key], [traffic_id, ...domains]) => {
+    for (const d of domains) if (db.hget(key!, d) === traffic_id) db.hdel(key!, d);
+    return 1;
+  }
+);
+
+/**
+ * @returns The key used to check collisions of the http proxy domain.
+ */
+export function domain_key(
+  proxy: { subdomain?: string; custom_domains?: string[] },
+  server: { subdomain_host?: string },
+  server_id: string
+) {
+  if (proxy.custom_domains?.length) return proxy.custom_domains[0]!.toLowerCase();
+  if (!proxy.subdomain) return null;
+  if (server.subdomain_host) return `${proxy.subdomain}.${server.subdomain_host}`.toLowerCase();
+  return `${proxy.subdomain}@${server_id}`.toLowerCase();
+}
+
+/**
+ * Atomically claim the domains for the traffic, all or nothing.
+ * @returns The domain already used by other traffic, or null if claimed.
+ */
+export async function claim_domains(traffic_id: string, domains: string[]): Promise<string | null> {
+  if (!domains.length) return null;
+  const reply = await cache.eval(SCRIPT_CLAIM, [KEY_DOMAIN], [traffic_id, ...domains]);
+  return (reply as string | null) || null;
+}
+
+export async function release_domains(traffic_id: string, domains: string[]) {
+  if (!domains.length) return;
+  await cache.eval(SCRIPT_RELEASE, [KEY_DOMAIN], [traffic_id, ...domains]);
+}
+
+/**
+ * @returns domain -> traffic_id
+ */
+export async function list_domains(): Promise<Map<string, string>> {
+  return new Map(Object.entries(await KEY_DOMAIN.hgetall()));
+}
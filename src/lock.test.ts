@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { SCRIPT_ACQUIRE, SCRIPT_EXTEND, SCRIPT_RELEASE } from "@/lock";
+import { backends, run, test_keys } from "@/test/backends";
+import { sleep } from "@/utils";
+
+for (const b of backends()) {
+  describe(`lock scripts (${b.name})`, () => {
+    test("acquire once with an increasing fence", async () => {
+      const k = test_keys("a", "b", "fence");
+      const fence_a = Number(await run(b, SCRIPT_ACQUIRE, [k.a, k.fence], ["i1", 10000]));
+      expect(fence_a).toBeGreaterThan(0);
+      expect(await b.storage.get(k.a)).toBe(`i1:${fence_a}`);
+      expect(Number(await run(b, SCRIPT_ACQUIRE, [k.a, k.fence], ["i2", 10000]))).toBe(0);
+      // the fence is shared by all locks
+      const fence_b = Number(await run(b, SCRIPT_ACQUIRE, [k.b, k.fence], ["i2", 10000]));
+      expect(fence_b).toBeGreaterThan(fence_a);
+    });
+
+    test("extend and release by the holder only", async () => {
+      const k = test_keys("lock", "fence");
+      const fence = Number(await run(b, SCRIPT_ACQUIRE, [k.lock, k.fence], ["i1", 1000]));
+      const token = `i1:${fence}`;
+      expect(Number(await run(b, SCRIPT_EXTEND, [k.lock], ["i2:0", 60000]))).toBe(0);
+      expect(Number(await run(b, SCRIPT_EXTEND, [k.lock], [token, 60000]))).toBe(1);
+      expect(await b.storage.ttl(k.lock)).toBeGreaterThan(1);
+      expect(Number(await run(b, SCRIPT_RELEASE, [k.lock], ["i2:0"]))).toBe(0);
+      expect(Number(await run(b, SCRIPT_RELEASE, [k.lock], [token]))).toBe(1);
+      expect(await b.storage.exists(k.lock)).toBe(false);
+    });
+
+    test("acquire again once expired", async () => {
+      const k = test_keys("lock", "fence");
+      expect(Number(await run(b, SCRIPT_ACQUIRE, [k.lock, k.fence], ["i1", 50]))).toBeGreaterThan(0);
+      await sleep(100);
+      expect(Number(await run(b, SCRIPT_ACQUIRE, [k.lock, k.fence], ["i2", 1000]))).toBeGreaterThan(0);
+    });
+  });
+}
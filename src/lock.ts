@@ -0,0 +1,238 @@
+import { hostname } from "node:os";
+import { nanoid } from "nanoid";
+import { Cache } from "@/cache";
+import CONFIG from "@/config";
+import { define_script } from "@/storage";
+import { sleep } from "@/utils";
+
+const cache = new Cache(CONFIG.cache);
+
+// * locks shared by all the controller replicas
+// lock:{name} -> "{instance_id}:{fence}", with expire
+// lock_fence -> fencing token shared by all locks, monotonic and no expire
+
+/**
+ * Unique id of this controller process.
+ */
+export const INSTANCE_ID = `${hostname()}-${nanoid(8)}`;
+
+// KEYS: lock, fence
+// ARGV: instance_id, ttl_ms
+// returns the fencing token if acquired, 0 otherwise
+export const SCRIPT_ACQUIRE = define_script(
+  `
+if redis.call("EXISTS", KEYS[1]) == 1 then
+  return 0
+end
+local fence = redis.call("INCR", KEYS[2])
+redis.call("SET", KEYS[1], ARGV[1] .. ":" .. fence, "PX", ARGV[2])
+return fence
+`,
+  (db, [lock, fence_key], [instance_id, ttl_ms]) => {
+    if (db.exists(lock!)) return 0;
+    const fence = db.incr(fence_key!);
+    db.set(lock!, `${instance_id}:${fence}`, { px: Number(ttl_ms) });
+    return fence;
+  }
+);
+
+// KEYS: lock
+// ARGV: token, ttl_ms
+export const SCRIPT_EXTEND = define_script(
+  `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0
+`,
+  (db, [lock], [token, ttl_ms]) => (db.get(lock!) === token && db.pexpire(lock!, Number(ttl_ms)) ? 1 : 0)
+);
+
+// KEYS: lock
+// ARGV: token
+export const SCRIPT_RELEASE = define_script(
+  `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`,
+  (db, [lock], [token]) => (db.get(lock!) === token ? db.del(lock!) : 0)
+);
+
+export class LockError extends Error {
+  constructor(
+    public readonly lock_name: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "LockError";
+  }
+
+  /**
+   * Replied as busy, the caller should retry once the lock holder is done.
+   */
+  toJSON() {
+    return { error: "busy", message: this.message };
+  }
+}
+
+export interface LockOptions {
+  /**
+   * lock expire time in milliseconds, the lock is renewed while held
+   */
+  ttl?: number;
+  /**
+   * max time to wait for the lock in milliseconds
+   */
+  wait?: number;
+  /**
+   * retry interval in milliseconds
+   */
+  retry_interval?: number;
+}
+
+export class Lock {
+  private renew_timer: ReturnType<typeof setInterval> | null = null;
+  private lost = false;
+
+  constructor(
+    public readonly name: string,
+    /**
+     * fencing token, increases on every acquisition of the same lock
+     */
+    public readonly fence: number,
+    private readonly ttl: number
+  ) {}
+
+  get token() {
+    return `${INSTANCE_ID}:${this.fence}`;
+  }
+
+  /**
+   * Whether the lock is still held, should be checked before committing writes.
+   */
+  async held(): Promise<boolean> {
+    if (this.lost) return false;
+    const reply = await cache.eval(SCRIPT_EXTEND, [cache.at("lock").at(this.name)], [this.token, this.ttl]);
+    if (!reply) this.lost = true;
+    return !this.lost;
+  }
+
+  /**
+   * Throw if the lock has been lost, e.g. expired while the process was stalled.
+   */
+  async assert_held() {
+    if (!(await this.held())) {
+      throw new LockError(this.name, `lock lost: ${this.name}`);
+    }
+  }
+
+  start_renew() {
+    this.renew_timer = setInterval(
+      () => {
+        this.held().catch((e) => console.error(`Error renewing lock ${this.name}:`, e));
+      },
+      Math.max(100, Math.floor(this.ttl / 3))
+    );
+  }
+
+  async release() {
+    if (this.renew_timer) clearInterval(this.renew_timer);
+    this.renew_timer = null;
+    await cache.eval(SCRIPT_RELEASE, [cache.at("lock").at(this.name)], [this.token]);
+  }
+}
+
+/**
+ * Try to acquire the named lock once.
+ * @returns The lock if acquired, otherwise null.
+ */
+export async function try_acquire_lock(name: string, ttl = 30000): Promise<Lock | null> {
+  const reply = await cache.eval(
+    SCRIPT_ACQUIRE,
+    [cache.at("lock").at(name), cache.at("lock_fence")],
+    [INSTANCE_ID, ttl]
+  );
+  const fence = Number(reply);
+  return fence > 0 ? new Lock(name, fence, ttl) : null;
+}
+
+/**
+ * Acquire the named lock, waiting for at most `wait` milliseconds.
+ * @throws {LockError} If the lock cannot be acquired in time.
+ */
+export async function acquire_lock(name: string, opts: LockOptions = {}): Promise<Lock> {
+  const { ttl = 30000, wait = 30000, retry_interval = 50 } = opts;
+  const deadline = Date.now() + wait;
+  while (true) {
+    const lock = await try_acquire_lock(name, ttl);
+    if (lock) return lock;
+    if (Date.now() >= deadline) throw new LockError(name, `timeout acquiring lock: ${name}`);
+    // jitter to avoid thundering herd
+    await sleep(retry_interval + Math.floor(Math.random() * retry_interval));
+  }
+}
+
+/**
+ * Run `func` while holding the named lock, the lock is renewed until `func` returns.
+ */
+export async function with_lock<T>(name: string, func: (lock: Lock) => Promise<T>, opts: LockOptions = {}) {
+  const lock = await acquire_lock(name, opts);
+  lock.start_renew();
+  try {
+    return await func(lock);
+  } finally {
+    await lock.release().catch((e) => console.error(`Error releasing lock ${name}:`, e));
+  }
+}
+
+/**
+ * Run `func` while holding the named lock, skip it if the lock is held by others.
+ * @returns The result of `func`, or undefined if skipped.
+ */
+export async function try_with_lock<T>(name: string, func: (lock: Lock) => Promise<T>, ttl = 30000) {
+  const lock = await try_acquire_lock(name, ttl);
+  if (!lock) return undefined;
+  lock.start_renew();
+  try {
+    return await func(lock);
+  } finally {
+    await lock.release().catch((e) => console.error(`Error releasing lock ${name}:`, e));
+  }
+}
+
+/**
+ * Keep campaigning for the named leadership in background.
+ * @returns A function telling whether this replica is the leader now.
+ */
+export function elect_leader(name: string, ttl = 15000) {
+  let lock: Lock | null = null;
+  const campaign = async () => {
+    try {
+      if (lock && !(await lock.held())) {
+        console.warn(`Lost leadership: ${name}`);
+        lock = null;
+      }
+      if (!lock) {
+        lock = await try_acquire_lock(`leader:${name}`, ttl);
+        if (lock) console.info(`Elected as leader: ${[`name=${name}`, `instance=${INSTANCE_ID}`].join(", ")}`);
+      }
+    } catch (e) {
+      console.error(`Error during leader election ${name}:`, e);
+      lock = null;
+    }
+    setTimeout(campaign, Math.floor(ttl / 3));
+  };
+  campaign();
+  return () => lock !== null;
+}
+
+/**
+ * Delete the per lock `lock:{name}:fence` counters of older versions, which never expire.
+ */
+export async function migrate_legacy_fences() {
+  for (const key of await cache.at("lock").at("*").at("fence").keys()) {
+    await cache.at(key).del();
+  }
+}
@@ -0,0 +1,125 @@
+import { Counter, collectDefaultMetrics, Gauge, Histogram, Registry } from "prom-client";
+import { Cache } from "@/cache";
+import CONFIG from "@/config";
+import { count_free_ports, count_reserved_ports } from "@/ports";
+import { node_name_of, server_id_of } from "@/utils";
+
+const cache = new Cache(CONFIG.cache);
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: "frp_controller_" });
+
+export const traffic_created = new Counter({
+  name: "frp_controller_traffic_created_total",
+  help: "Traffic created",
+  registers: [registry],
+});
+
+export const traffic_extended = new Counter({
+  name: "frp_controller_traffic_extended_total",
+  help: "Traffic whose expiry is extended by a repeated update",
+  registers: [registry],
+});
+
+export const traffic_updated = new Counter({
+  name: "frp_controller_traffic_updated_total",
+  help: "Traffic whose ports changed and were patched in place",
+  registers: [registry],
+});
+
+export const traffic_deleted = new Counter({
+  name: "frp_controller_traffic_deleted_total",
+  help: "Traffic deleted through the API",
+  registers: [registry],
+});
+
+export const traffic_expired = new Counter({
+  name: "frp_controller_traffic_expired_total",
+  help: "Traffic expired and torn down by cleanup",
+  registers: [registry],
+});
+
+export const traffic_failures = new Counter({
+  name: "frp_controller_traffic_failures_total",
+  help: "Traffic provisioning failures by reason",
+  labelNames: ["reason"] as const,
+  registers: [registry],
+});
+
+new Gauge({
+  name: "frp_controller_server_ports_in_use",
+  help: "Reserved remote ports per server",
+  labelNames: ["server_id"] as const,
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const sc of CONFIG.server) {
+      const server_id = server_id_of(sc.node_name);
+      this.set({ server_id }, await count_reserved_ports(server_id));
+    }
+  },
+});
+
+new Gauge({
+  name: "frp_controller_server_ports_free",
+  help: "Free remote ports in port_range per server",
+  labelNames: ["server_id"] as const,
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const sc of CONFIG.server) {
+      const server_id = server_id_of(sc.node_name);
+      this.set({ server_id }, await count_free_ports(server_id, sc.port_range));
+    }
+  },
+});
+
+new Gauge({
+  name: "frp_controller_active_traffic",
+  help: "Active traffic per node",
+  labelNames: ["node_name"] as const,
+  registers: [registry],
+  async collect() {
+    this.reset();
+    const counts = new Map<string, number>();
+    for (const working_key of await cache.at("working").at("*").keys()) {
+      const working = (await cache.at(working_key).get())?.parseJSON<{ client_id: string }[]>() ?? null;
+      if (!working?.[0]) continue;
+      const node_name = node_name_of(working[0].client_id);
+      counts.set(node_name, (counts.get(node_name) ?? 0) + 1);
+    }
+    for (const [node_name, count] of counts) this.set({ node_name }, count);
+  },
+});
+
+export const update_traffic_duration = new Histogram({
+  name: "frp_controller_update_traffic_duration_seconds",
+  help: "Latency of update_traffic",
+  labelNames: ["outcome"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+export const wait_ready_duration = new Histogram({
+  name: "frp_controller_wait_ready_duration_seconds",
+  help: "Time waiting for proxies to be running",
+  labelNames: ["outcome"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 3, 5, 10],
+  registers: [registry],
+});
+
+export const panel_circuit_open = new Gauge({
+  name: "frp_controller_panel_circuit_open",
+  help: "1 while the circuit breaker of frp-panel is open",
+  labelNames: ["master"] as const,
+  registers: [registry],
+});
+
+export const panel_api_duration = new Histogram({
+  name: "frp_controller_panel_api_duration_seconds",
+  help: "Latency of frp-panel API calls by endpoint",
+  labelNames: ["master", "endpoint", "status"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
@@ -1,13 +1,115 @@
+import { createHash, timingSafeEqual } from "node:crypto";
 import { createMiddleware } from "hono/factory";
 import { HTTPException } from "hono/http-exception";
-import config from "@/config";
+import config, { on_reload, type QuotaConfig } from "@/config";
+import { server_id_of } from "@/utils";
 
-export const auth = createMiddleware(async (c, next) => {
-  const AUTH_TOKEN = config.app.auth_token;
+export type Scope = "read" | "create" | "delete" | "admin";
+
+export interface AuthToken {
+  name: string;
+  scopes: Scope[];
+  /**
+   * k8s node names the token may touch, all if undefined
+   */
+  node_names?: string[];
+  /**
+   * `[[server]].node_name` the token may use, all if undefined
+   */
+  servers?: string[];
+  /**
+   * override the global quota, see `resolve_quota`
+   */
+  quota?: QuotaConfig;
+}
+
+export type AuthEnv = {
+  Variables: {
+    token: AuthToken;
+  };
+};
+
+function sha256(text: string) {
+  return createHash("sha256").update(text).digest();
+}
+
+interface HashedToken extends AuthToken {
+  hash: Buffer;
+}
+
+function hash_tokens(): HashedToken[] {
+  return [
+    ...config.token.map((t) => ({
+      name: t.name,
+      scopes: t.scopes,
+      node_names: t.node_names,
+      servers: t.servers,
+      quota: t.quota,
+      hash: Buffer.from(t.hash.replace(/^sha256:/, ""), "hex"),
+    })),
+    // legacy single token, full power
+    ...(config.app.auth_token
+      ? [{ name: "default", scopes: ["admin"] as Scope[], hash: sha256(config.app.auth_token) }]
+      : []),
+  ];
+}
+
+let TOKENS = hash_tokens();
+on_reload(() => {
+  TOKENS = hash_tokens();
+});
+
+function find_token(bearer: string) {
+  const hash = sha256(bearer);
+  // compare all tokens so that timing does not tell which one matches
+  let found: HashedToken | undefined;
+  for (const t of TOKENS) {
+    if (t.hash.length === hash.length && timingSafeEqual(t.hash, hash)) found ??= t;
+  }
+  return found;
+}
+
+export const auth = createMiddleware<AuthEnv>(async (c, next) => {
   const auth_header = c.req.header("Authorization") ?? "";
-  if (auth_header === `Bearer ${AUTH_TOKEN}`) {
+  const token = auth_header.startsWith("Bearer ") ? find_token(auth_header.slice("Bearer ".length)) : undefined;
+  if (token) {
+    c.set("token", {
+      name: token.name,
+      scopes: token.scopes,
+      node_names: token.node_names,
+      servers: token.servers,
+      quota: token.quota,
+    });
     await next();
   } else {
     throw new HTTPException(401, { message: "unauthorized" });
   }
 });
+
+export function has_scope(token: AuthToken, scope: Scope) {
+  return token.scopes.includes("admin") || token.scopes.includes(scope);
+}
+
+/**
+ * Require the caller to have the scope, `admin` implies all scopes.
+ */
+export const scope = (required: Scope) =>
+  createMiddleware<AuthEnv>(async (c, next) => {
+    if (has_scope(c.var.token, required)) {
+      await next();
+    } else {
+      throw new HTTPException(403, { message: "forbidden" });
+    }
+  });
+
+/**
+ * Whether the token may touch the traffic on the k8s node and frp server.
+ */
+export function can_access(token: AuthToken, target: { node_name?: string | null; server_id?: string | null }) {
+  if (token.node_names && target.node_name && !token.node_names.includes(target.node_name)) return false;
+  if (token.servers && target.server_id) {
+    const server_ids = token.servers.map(server_id_of);
+    if (!server_ids.includes(target.server_id)) return false;
+  }
+  return true;
+}
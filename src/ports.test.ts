@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { SCRIPT_CLAIM, SCRIPT_RELEASE, SCRIPT_RESERVE } from "@/ports";
+import { backends, run, test_keys } from "@/test/backends";
+
+for (const b of backends()) {
+  describe(`ports scripts (${b.name})`, () => {
+    test("claim distinct ports in range, all or nothing", async () => {
+      const k = test_keys("used", "free", "range");
+      const first = (await run(b, SCRIPT_CLAIM, [k.used, k.free, k.range], [100, 104, 3, "t1"])) as string[];
+      expect(first).toHaveLength(3);
+      expect(new Set(first).size).toBe(3);
+      for (const p of first) expect(Number(p)).toBeWithin(100, 105);
+      expect(await b.storage.hget(k.used, first[0]!)).toBe("t1");
+
+      // 2 left, not enough for 3
+      expect(await run(b, SCRIPT_CLAIM, [k.used, k.free, k.range], [100, 104, 3, "t2"])).toEqual([]);
+      const rest = (await run(b, SCRIPT_CLAIM, [k.used, k.free, k.range], [100, 104, 2, "t2"])) as string[];
+      expect([...first, ...rest].map(Number).sort()).toEqual([100, 101, 102, 103, 104]);
+    });
+
+    test("a changed range keeps the used ports out", async () => {
+      const k = test_keys("used", "free", "range");
+      await b.storage.hset(k.used, "200", "other");
+      const ports = (await run(b, SCRIPT_CLAIM, [k.used, k.free, k.range], [200, 202, 2, "t1"])) as string[];
+      expect(ports.map(Number).sort()).toEqual([201, 202]);
+      // widened, only the new port is free
+      const more = (await run(b, SCRIPT_CLAIM, [k.used, k.free, k.range], [200, 203, 1, "t1"])) as string[];
+      expect(more).toEqual(["203"]);
+    });
+
+    test("release only the ports owned by the traffic", async () => {
+      const k = test_keys("used", "free", "range");
+      const ports = (await run(b, SCRIPT_CLAIM, [k.used, k.free, k.range], [300, 301, 2, "t1"])) as string[];
+      await b.storage.hset(k.used, "999", "t2");
+      const released = await run(b, SCRIPT_RELEASE, [k.used, k.free, k.range], ["t1", ...ports, "999"]);
+      expect((released as string[]).sort()).toEqual([...ports].sort());
+      expect(await b.storage.hget(k.used, "999")).toBe("t2");
+      // back to the free set
+      const again = (await run(b, SCRIPT_CLAIM, [k.used, k.free, k.range], [300, 301, 2, "t3"])) as string[];
+      expect(again.sort()).toEqual([...ports].sort());
+    });
+
+    test("reserve a port unless owned by other traffic", async () => {
+      const k = test_keys("used", "free", "range");
+      expect(await run(b, SCRIPT_RESERVE, [k.used, k.free], ["t1", 400])).toBe("t1");
+      expect(await run(b, SCRIPT_RESERVE, [k.used, k.free], ["t1", 400])).toBe("t1");
+      expect(await run(b, SCRIPT_RESERVE, [k.used, k.free], ["t2", 400])).toBe("t1");
+      // never handed out by a claim
+      const ports = (await run(b, SCRIPT_CLAIM, [k.used, k.free, k.range], [400, 401, 1, "t2"])) as string[];
+      expect(ports).toEqual(["401"]);
+    });
+  });
+}
@@ -0,0 +1,285 @@
+import { Cache } from "@/cache";
+import CONFIG from "@/config";
+import { with_lock } from "@/lock";
+import { QuotaError } from "@/quota";
+import { define_script, type MemoryDB } from "@/storage";
+
+const cache = new Cache(CONFIG.cache);
+
+// * per server port reservations, no expire
+// port:{server_id}:used -> hash { port: traffic_id }
+// port:{server_id}:free -> set of ports in range which are not used
+// port:{server_id}:range -> "{start}-{end}", the range which free set is built from
+
+function keys_of(server_id: string) {
+  return {
+    used: cache.at("port").at(server_id).at("used"),
+    free: cache.at("port").at(server_id).at("free"),
+    range: cache.at("port").at(server_id).at("range"),
+  };
+}
+
+// (re)build the free set if the range changed, the ports already used are kept out of it,
+// so that reserved ports are never handed out twice even if the range is changed
+const SCRIPT_PREPARE = `
+local range = ARGV[1] .. "-" .. ARGV[2]
+if redis.call("GET", KEYS[3]) ~= range then
+  redis.call("DEL", KEYS[2])
+  local batch = {}
+  for p = tonumber(ARGV[1]), tonumber(ARGV[2]) do
+    if redis.call("HEXISTS", KEYS[1], p) == 0 then
+      batch[#batch + 1] = p
+      if #batch >= 1000 then
+        redis.call("SADD", KEYS[2], unpack(batch))
+        batch = {}
+      end
+    end
+  end
+  if #batch > 0 then
+    redis.call("SADD", KEYS[2], unpack(batch))
+  end
+  redis.call("SET", KEYS[3], range)
+end
+`;
+
+function prepare_local(db: MemoryDB, [used, free, range_key]: string[], [start, end]: string[]) {
+  const range = `${start}-${end}`;
+  if (db.get(range_key!) === range) return;
+  db.del(free!);
+  for (let p = Number(start); p <= Number(end); p++) {
+    if (!db.hexists(used!, p.toString())) db.sadd(free!, p.toString());
+  }
+  db.set(range_key!, range);
+}
+
+// KEYS: used, free, range
+// ARGV: start, end, count, traffic_id
+export const SCRIPT_CLAIM = define_script(
+  `${SCRIPT_PREPARE}
+local count = tonumber(ARGV[3])
+if redis.call("SCARD", KEYS[2]) < count then
+  return {}
+end
+local ports = redis.call("SPOP", KEYS[2], count)
+for _, p in ipairs(ports) do
+  redis.call("HSET", KEYS[1], p, ARGV[4])
+end
+return ports
+`,
+  (db, keys, args) => {
+    prepare_local(db, keys, args);
+    const [used, free] = keys as [string, string];
+    const count = Number(args[2]);
+    if (db.scard(free) < count) return [];
+    const ports = db.spop(free, count);
+    for (const p of ports) db.hset(used, p, args[3]!);
+    return ports;
+  }
+);
+
+// KEYS: used, free, range
+// ARGV: traffic_id, ...ports
+// only release the ports owned by the traffic, returns the released ports
+export const SCRIPT_RELEASE = define_script(
+  `
+local range = redis.call("GET", KEYS[3])
+local lo, hi = -1, -1
+if range then
+  local s, e = string.match(range, "^(%d+)-(%d+)$")
+  lo, hi = tonumber(s), tonumber(e)
+end
+local released = {}
+for i = 2, #ARGV do
+  local p = ARGV[i]
+  if redis.call("HGET", KEYS[1], p) == ARGV[1] then
+    redis.call("HDEL", KEYS[1], p)
+    local n = tonumber(p)
+    if n >= lo and n <= hi then
+      redis.call("SADD", KEYS[2], p)
+    end
+    released[#released + 1] = p
+  end
+end
+return released
+`,
+  (db, [used, free, range_key], [traffic_id, ...ports]) => {
+    const [lo, hi] = (
+      db
+        .get(range_key!)
+        ?.match(/^(\d+)-(\d+)$/)
+        ?.slice(1) ?? ["-1", "-1"]
+    ).map(Number) as [number, number];
+    const released: string[] = [];
+    for (const p of ports) {
+      if (db.hget(used!, p) !== traffic_id) continue;
+      db.hdel(used!, p);
+      if (Number(p) >= lo && Number(p) <= hi) db.sadd(free!, p);
+      released.push(p);
+    }
+    return released;
+  }
+);
+
+// every claim and reservation on a server is serialized by the port lock of the server,
+// so that the limit check sees all the ports taken before it
+const PORT_LOCK = { ttl: 10000, wait: 10000 };
+
+/**
+ * Atomically claim `count` ports in `port_range` for the traffic.
+ * @param limit max reserved ports of the server, checked under the port lock of the server
+ * @returns The claimed ports.
+ * @throws {QuotaError} If the claim would exceed `limit`.
+ * @throws If there are not enough free ports.
+ */
+export async function claim_ports(
+  server_id: string,
+  port_range: [number, number],
+  traffic_id: string,
+  count: number,
+  limit?: number
+): Promise<number[]> {
+  if (count <= 0) return [];
+  // only the check and the claim are locked, traffic on other servers is not blocked
+  return with_lock(
+    `port:${server_id}`,
+    async () => {
+      if (limit !== undefined) {
+        const used = await count_reserved_ports(server_id);
+        if (used + count > limit) {
+          throw new QuotaError(
+            "ports_per_server",
+            limit,
+            used,
+            `frp server ${server_id} has no ${count} ports left under the limit ${limit}`
+          );
+        }
+      }
+      const k = keys_of(server_id);
+      const reply = await cache.eval(
+        SCRIPT_CLAIM,
+        [k.used, k.free, k.range],
+        [port_range[0], port_range[1], count, traffic_id]
+      );
+      const ports = (reply as string[]).map((p) => parseInt(p, 10));
+      // exactly `count` distinct ports in range, never a partial claim
+      const valid = new Set(ports.filter((p) => p >= port_range[0] && p <= port_range[1]));
+      if (ports.length < count || valid.size !== ports.length) {
+        await release_ports(server_id, traffic_id, ports).catch(console.error);
+        throw new Error("No available port found in the specified range");
+      }
+      return ports;
+    },
+    PORT_LOCK
+  );
+}
+
+// KEYS: used, free
+// ARGV: traffic_id, port
+// returns the owner of the port after the call
+export const SCRIPT_RESERVE = define_script(
+  `
+local owner = redis.call("HGET", KEYS[1], ARGV[2])
+if owner then
+  return owner
+end
+redis.call("HSET", KEYS[1], ARGV[2], ARGV[1])
+redis.call("SREM", KEYS[2], ARGV[2])
+return ARGV[1]
+`,
+  (db, [used, free], [traffic_id, port]) => {
+    const owner = db.hget(used!, port!);
+    if (owner) return owner;
+    db.hset(used!, port!, traffic_id!);
+    db.srem(free!, port!);
+    return traffic_id;
+  }
+);
+
+/**
+ * Reserve a specific port for the traffic if it is not reserved yet.
+ * @returns The traffic_id owning the port, which is not `traffic_id` on conflict.
+ */
+export async function reserve_port(server_id: string, traffic_id: string, port: number): Promise<string> {
+  return with_lock(
+    `port:${server_id}`,
+    async () => {
+      const k = keys_of(server_id);
+      const reply = await cache.eval(SCRIPT_RESERVE, [k.used, k.free], [traffic_id, port]);
+      return reply as string;
+    },
+    PORT_LOCK
+  );
+}
+
+/**
+ * Release the ports reserved by the traffic, ports owned by other traffic are untouched.
+ * @returns The released ports.
+ */
+export async function release_ports(server_id: string, traffic_id: string, ports: number[]): Promise<number[]> {
+  if (!ports.length) return [];
+  const k = keys_of(server_id);
+  const reply = await cache.eval(SCRIPT_RELEASE, [k.used, k.free, k.range], [traffic_id, ...ports]);
+  return (reply as string[]).map((p) => parseInt(p, 10));
+}
+
+/**
+ * @returns port -> traffic_id of all reserved ports on the server.
+ */
+export async function get_reserved_ports(server_id: string): Promise<Map<number, string>> {
+  const all = await keys_of(server_id).used.hgetall();
+  return new Map(Object.entries(all).map(([p, t]) => [parseInt(p, 10), t]));
+}
+
+/**
+ * @returns The traffic_id which reserves the port, or null.
+ */
+export function get_port_owner(server_id: string, port: number) {
+  return keys_of(server_id).used.hget(port.toString());
+}
+
+/**
+ * @returns The number of ports in `port_range` which are not reserved.
+ */
+export async function count_free_ports(server_id: string, port_range: [number, number]) {
+  const reserved = await get_reserved_ports(server_id);
+  let used = 0;
+  for (const port of reserved.keys()) {
+    if (port >= port_range[0] && port <= port_range[1]) used++;
+  }
+  return Math.max(0, port_range[1] - port_range[0] + 1 - used);
+}
+
+export function count_reserved_ports(server_id: string) {
+  return keys_of(server_id).used.hlen();
+}
+
+/**
+ * @returns All server ids which have reserved ports.
+ */
+export async function list_port_servers(): Promise<string[]> {
+  const keys = await cache.at("port").at("*").at("used").keys();
+  return keys.map((key) => key.split(":").slice(1, -1).join(":"));
+}
+
+/**
+ * Move legacy `port:{server_id}:{port} -> traffic_id` keys into the reservation hash.
+ */
+export async function migrate_legacy_ports() {
+  const keys = await cache.at("port").at("*").at("*").keys();
+  for (const key of keys) {
+    const [_, server_id, port_str] = key.split(":") as [string, string, string];
+    if (!/^\d+$/.test(port_str)) continue;
+    const legacy_key = cache.at("port").at(server_id).at(port_str);
+    const traffic_id = await legacy_key.get();
+    if (traffic_id) {
+      console.log(
+        `Migrating legacy port: ${[`server_id=${server_id}`, `port=${port_str}`, `traffic_id=${traffic_id}`].join(", ")}`
+      );
+      const k = keys_of(server_id);
+      await k.used.hset(port_str, traffic_id);
+      // force the free set to be rebuilt on next claim
+      await k.range.del();
+    }
+    await legacy_key.del();
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { PanelError } from "@/api";
+import { LockError } from "@/lock";
+import { failure_of, ProvisionError } from "@/provision";
+import { QuotaError } from "@/quota";
+
+describe("failure_of", () => {
+  test("map every error to a typed reply", () => {
+    expect(failure_of(new QuotaError("lifetime", 60, 120, "too long"))).toMatchObject({
+      status: 429,
+      error: "quota_exceeded",
+    });
+    expect(failure_of(new ProvisionError("not_ready", "slow"))).toMatchObject({ status: 504, error: "not_ready" });
+    expect(failure_of(new PanelError("v1/server/list", 500, "down"))).toMatchObject({
+      status: 502,
+      error: "panel_error",
+    });
+    expect(failure_of(new LockError("traffic:t1", "timeout acquiring lock: traffic:t1"))).toEqual({
+      status: 503,
+      error: "busy",
+      message: "timeout acquiring lock: traffic:t1",
+    });
+    expect(failure_of(new Error("boom"))).toMatchObject({ status: 500, error: "internal" });
+  });
+});
@@ -0,0 +1,105 @@
+import { HTTPException } from "hono/http-exception";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { PanelError } from "@/api";
+import { LockError } from "@/lock";
+import { QuotaError } from "@/quota";
+
+export type ProvisionErrorCode = "no_server" | "port_exhausted" | "panel_error" | "not_ready";
+
+const STATUS: Record<ProvisionErrorCode, ContentfulStatusCode> = {
+  no_server: 503,
+  port_exhausted: 503,
+  panel_error: 502,
+  not_ready: 504,
+};
+
+export class ProvisionError extends Error {
+  /**
+   * frp server picked for the traffic, null if failed before picking
+   */
+  server_id: string | null;
+
+  constructor(
+    public readonly code: ProvisionErrorCode,
+    message: string,
+    options?: ErrorOptions & { server_id?: string }
+  ) {
+    super(message, options);
+    this.name = "ProvisionError";
+    this.server_id = options?.server_id ?? null;
+  }
+
+  get status() {
+    return STATUS[this.code];
+  }
+
+  toJSON() {
+    return { error: this.code, message: this.message };
+  }
+}
+
+/**
+ * Compensating actions of the steps done so far, undone in reverse order on failure.
+ */
+export class Rollback {
+  private readonly undo: { step: string; action: () => Promise<unknown> }[] = [];
+
+  constructor(private readonly traffic_id: string) {}
+
+  /**
+   * Register the compensating action right after the step is done.
+   */
+  add(step: string, action: () => Promise<unknown>) {
+    this.undo.push({ step, action });
+  }
+
+  /**
+   * Undo every registered step, an undo failure is logged and left to cleanup.
+   */
+  async run() {
+    while (this.undo.length) {
+      const { step, action } = this.undo.pop()!;
+      try {
+        await action();
+      } catch (e) {
+        console.error(`Rollback failed: ${[`traffic_id=${this.traffic_id}`, `step=${step}`].join(", ")}`, e);
+      }
+    }
+  }
+}
+
+/**
+ * Run a panel call, turning any failure into `panel_error`.
+ */
+export async function panel_step<T extends { code: number; msg: string }>(what: string, call: () => Promise<T>) {
+  let res: T;
+  try {
+    res = await call();
+  } catch (e) {
+    throw new ProvisionError("panel_error", `${what}: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+  }
+  if (res.code !== 200) throw new ProvisionError("panel_error", `${what}: ${res.msg || `code ${res.code}`}`);
+  return res;
+}
+
+/**
+ * The reply body of a failed provisioning, with the status it is replied with.
+ */
+export type ProvisionFailure = { status: ContentfulStatusCode; error: string; message: string } & Record<
+  string,
+  unknown
+>;
+
+/**
+ * @returns The failure replied synchronously, or recorded as the `failed` state of async provisioning.
+ */
+export function failure_of(e: unknown): ProvisionFailure {
+  if (e instanceof QuotaError) return { status: 429, ...e.toJSON() };
+  if (e instanceof ProvisionError) return { status: e.status, ...e.toJSON() };
+  if (e instanceof PanelError) return { status: 502, error: "panel_error", message: e.message };
+  if (e instanceof LockError) return { status: 503, ...e.toJSON() };
+  if (e instanceof HTTPException) {
+    return { status: e.status as ContentfulStatusCode, error: "rejected", message: e.message };
+  }
+  return { status: 500, error: "internal", message: "internal server error" };
+}
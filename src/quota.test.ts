@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { SCRIPT_RESERVE_TRAFFIC } from "@/quota";
+import { backends, run, test_keys } from "@/test/backends";
+
+for (const b of backends()) {
+  describe(`quota scripts (${b.name})`, () => {
+    test("count traffic up to the limit, once each", async () => {
+      const k = test_keys("traffic");
+      expect(await run(b, SCRIPT_RESERVE_TRAFFIC, [k.traffic], ["t1", 2, 0])).toEqual([1, 1]);
+      // counted already
+      expect(await run(b, SCRIPT_RESERVE_TRAFFIC, [k.traffic], ["t1", 2, 0])).toEqual([1, 1]);
+      expect(await run(b, SCRIPT_RESERVE_TRAFFIC, [k.traffic], ["t2", 2, 0])).toEqual([1, 2]);
+      expect(await run(b, SCRIPT_RESERVE_TRAFFIC, [k.traffic], ["t3", 2, 0])).toEqual([0, 2]);
+      expect(await b.storage.hget(k.traffic, "t3")).toBeNull();
+      // counted already, even at the limit
+      expect(await run(b, SCRIPT_RESERVE_TRAFFIC, [k.traffic], ["t2", 2, 0])).toEqual([1, 2]);
+    });
+
+    test("count with no limit, none with a zero limit", async () => {
+      const k = test_keys("traffic");
+      expect(await run(b, SCRIPT_RESERVE_TRAFFIC, [k.traffic], ["t1", 0, 0])).toEqual([0, 0]);
+      expect(await run(b, SCRIPT_RESERVE_TRAFFIC, [k.traffic], ["t1", -1, 0])).toEqual([1, 1]);
+      expect(await run(b, SCRIPT_RESERVE_TRAFFIC, [k.traffic], ["t2", -1, 0])).toEqual([1, 2]);
+    });
+  });
+}
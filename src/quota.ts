@@ -0,0 +1,144 @@
+import { HTTPException } from "hono/http-exception";
+import { Cache } from "@/cache";
+import CONFIG, { type QuotaConfig } from "@/config";
+import { define_script } from "@/storage";
+
+const cache = new Cache(CONFIG.cache);
+
+// * traffic counted toward `max_traffic_per_node`, no expire
+// * removed on delete or teardown, the sweep adds the traffic missed and drops the ones gone
+// node:{node_name}:traffic -> hash { traffic_id: reserved_at }
+
+export type QuotaReason = "traffic_per_node" | "ports_per_traffic" | "ports_per_server" | "lifetime";
+
+export class QuotaError extends Error {
+  constructor(
+    public readonly reason: QuotaReason,
+    public readonly limit: number,
+    public readonly current: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "QuotaError";
+  }
+
+  toJSON() {
+    return {
+      error: "quota_exceeded",
+      reason: this.reason,
+      limit: this.limit,
+      current: this.current,
+      message: this.message,
+    };
+  }
+}
+
+/**
+ * Limits of the token override the global ones one by one.
+ */
+export function resolve_quota(override?: QuotaConfig): QuotaConfig {
+  const quota = { ...CONFIG.quota };
+  for (const [k, v] of Object.entries(override ?? {})) {
+    if (v !== undefined) Object.assign(quota, { [k]: v });
+  }
+  return quota;
+}
+
+/**
+ * Checks that need no lookup, for both new and extended traffic.
+ * The lifetime is counted from now, a traffic created long ago gets only what is left of it.
+ */
+export function check_service_quota(
+  quota: QuotaConfig,
+  service: { created_at: number; lifetime: number; ports: unknown[] }
+) {
+  const now = Math.floor(Date.now() / 1000);
+  // a future created_at would stretch the lifetime past the limit
+  if (service.created_at > now + CONFIG.app.clock_skew) {
+    throw new HTTPException(400, { message: `created_at ${service.created_at} is in the future` });
+  }
+  const remaining = service.created_at + service.lifetime - now;
+  // would expire right away
+  if (remaining <= 0) {
+    throw new HTTPException(400, { message: `lifetime ended at ${service.created_at + service.lifetime}` });
+  }
+  if (quota.max_lifetime !== undefined && remaining > quota.max_lifetime) {
+    throw new QuotaError(
+      "lifetime",
+      quota.max_lifetime,
+      remaining,
+      `remaining lifetime ${remaining}s exceeds the limit ${quota.max_lifetime}s`
+    );
+  }
+  if (quota.max_ports_per_traffic !== undefined && service.ports.length > quota.max_ports_per_traffic) {
+    throw new QuotaError(
+      "ports_per_traffic",
+      quota.max_ports_per_traffic,
+      service.ports.length,
+      `${service.ports.length} ports exceed the limit ${quota.max_ports_per_traffic} per traffic`
+    );
+  }
+}
+
+// KEYS: traffic
+// ARGV: traffic_id, limit (negative for no limit), now
+// returns { 1, count } if counted, or counted already, { 0, count } if the limit is reached
+export const SCRIPT_RESERVE_TRAFFIC = define_script(
+  `
+local count = redis.call("HLEN", KEYS[1])
+if redis.call("HEXISTS", KEYS[1], ARGV[1]) == 1 then
+  return {1, count}
+end
+local limit = tonumber(ARGV[2])
+if limit >= 0 and count >= limit then
+  return {0, count}
+end
+redis.call("HSET", KEYS[1], ARGV[1], ARGV[3])
+return {1, count + 1}
+`,
+  (db, [key], [traffic_id, limit, now]) => {
+    const count = db.hlen(key!);
+    if (db.hexists(key!, traffic_id!)) return [1, count];
+    if (Number(limit) >= 0 && count >= Number(limit)) return [0, count];
+    db.hset(key!, traffic_id!, now!);
+    return [1, count + 1];
+  }
+);
+
+/**
+ * Count the new traffic toward the node at once, so that traffic created in parallel never overshoots the limit.
+ * @param limit `max_traffic_per_node`, counted without a check if undefined
+ * @throws {QuotaError} If the node has reached the limit.
+ */
+export async function reserve_node_traffic(node_name: string, traffic_id: string, limit?: number) {
+  const reply = await cache.eval(
+    SCRIPT_RESERVE_TRAFFIC,
+    [cache.at("node").at(node_name).at("traffic")],
+    [traffic_id, limit ?? -1, Math.floor(Date.now() / 1000)]
+  );
+  const [ok, count] = (reply as number[]).map(Number) as [number, number];
+  if (!ok) {
+    throw new QuotaError(
+      "traffic_per_node",
+      limit ?? 0,
+      count,
+      `${count} active traffic on node ${node_name} reach the limit ${limit}`
+    );
+  }
+}
+
+export async function release_node_traffic(node_name: string, traffic_id: string) {
+  await cache.at("node").at(node_name).at("traffic").hdel(traffic_id);
+}
+
+/**
+ * @returns node_name -> traffic_id counted toward the node.
+ */
+export async function list_node_traffic(): Promise<Map<string, string[]>> {
+  const result = new Map<string, string[]>();
+  for (const key of await cache.at("node").at("*").at("traffic").keys()) {
+    const node_name = key.split(":").slice(1, -1).join(":");
+    result.set(node_name, Object.keys(await cache.at("node").at(node_name).at("traffic").hgetall()));
+  }
+  return result;
+}
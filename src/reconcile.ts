@@ -0,0 +1,346 @@
+import { Base64 } from "js-base64";
+import z from "zod";
+import * as api from "@/api";
+import { audit } from "@/audit";
+import { Cache } from "@/cache";
+import CONFIG from "@/config";
+import { elect_leader, try_with_lock } from "@/lock";
+import { get_port_owner, get_reserved_ports, list_port_servers, release_ports, reserve_port } from "@/ports";
+import { type Cached, cleanup_ticker, HEADER_MAPS } from "@/traffic";
+import { node_name_of, to_camel } from "@/utils";
+
+const cache = new Cache(CONFIG.cache);
+
+export interface ReconcileOptions {
+  /**
+   * only report, do not change anything
+   */
+  dry_run?: boolean;
+  /**
+   * re-create the proxies missing in frp-panel if the traffic is still alive, otherwise only flag them
+   */
+  recreate?: boolean;
+  /**
+   * caller identity for logs
+   */
+  caller?: string;
+}
+
+export interface ReconcileReport {
+  dry_run: boolean;
+  /**
+   * proxies in frp-panel which no working entry references
+   */
+  orphaned: { traffic_id: string; client_id: string; server_id: string; name: string; action: "deleted" | "none" }[];
+  /**
+   * proxies referenced by working entries but missing in frp-panel
+   */
+  missing: {
+    traffic_id: string;
+    client_id: string;
+    server_id: string;
+    name: string;
+    action: "recreated" | "flagged";
+  }[];
+  /**
+   * port reservations which do not match the panel
+   */
+  ports: {
+    server_id: string;
+    port: number;
+    traffic_id: string;
+    action: "reserved" | "released" | "conflict" | "none";
+    owner?: string;
+  }[];
+  /**
+   * traffic being updated, checked next time
+   */
+  skipped: string[];
+}
+
+function traffic_id_of(proxy_name: string) {
+  // ret2shell:{traffic_id}:{name}:{port}/{type}
+  return proxy_name.split(":")[1] ?? "";
+}
+
+// the other fields of the stored proxy are kept as is
+const schemaStoredProxy = z.looseObject({
+  remotePort: z.coerce.number().optional(),
+  remote_port: z.coerce.number().optional(),
+});
+
+// a single proxy, or a frpc config whose first proxy is the one
+const schemaStoredConfig = z.union([
+  z.looseObject({ proxies: z.array(schemaStoredProxy).min(1) }).transform((c) => c.proxies[0]!),
+  schemaStoredProxy,
+]);
+
+/**
+ * Read the remote port from the stored proxy config, which is json or base64 encoded json.
+ */
+function remote_port_of(proxy: { type: string; config: string }) {
+  if (proxy.type !== "tcp" && proxy.type !== "udp") return null;
+  for (const decode of [(s: string) => s, (s: string) => Base64.decode(s)]) {
+    try {
+      const parsed = schemaStoredConfig.safeParse(JSON.parse(decode(proxy.config)));
+      if (!parsed.success) continue;
+      const port = parsed.data.remotePort ?? parsed.data.remote_port;
+      if (port !== undefined && Number.isInteger(port) && port > 0) return port;
+    } catch {}
+  }
+  return null;
+}
+
+/**
+ * Read the working entry and the panel proxies of the traffic again, the traffic lock should be held.
+ */
+async function refresh_traffic(traffic_id: string) {
+  const working = (await cache.at("working").at(traffic_id).get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null;
+  const panel = (await api.list_all_proxy_configs(`ret2shell:${traffic_id}:`)).filter(
+    (p) => traffic_id_of(p.name) === traffic_id
+  );
+  return { working, panel };
+}
+
+/**
+ * @param working The working entry in the snapshot.
+ * @param panel The panel proxies in the snapshot.
+ */
+async function reconcile_traffic(
+  traffic_id: string,
+  working: api.ProxyConfigUniqueKey[] | null,
+  panel: Awaited<ReturnType<typeof api.list_all_proxy_configs>>,
+  report: ReconcileReport,
+  opts: Required<ReconcileOptions>
+) {
+  // the snapshot is taken before the lock, the traffic may have been provisioned or changed since,
+  // decide on the current state only
+  const snapshot_names = new Set((working ?? []).map((pk) => pk.name));
+  const snapshot_panel_names = new Set(panel.map((p) => p.name));
+  if (
+    panel.some((p) => !snapshot_names.has(p.name)) ||
+    (working ?? []).some((pk) => !snapshot_panel_names.has(pk.name))
+  ) {
+    ({ working, panel } = await refresh_traffic(traffic_id));
+  }
+  const working_names = new Set((working ?? []).map((pk) => pk.name));
+
+  // orphaned proxies in panel
+  for (const proxy of panel) {
+    if (working_names.has(proxy.name)) continue;
+    const pk = { client_id: proxy.client_id, server_id: proxy.server_id, name: proxy.name, master: proxy.master };
+    if (!opts.dry_run) {
+      console.log(
+        `Reconcile deleting orphaned proxy: ${[`traffic_id=${traffic_id}`, `name=${proxy.name}`].join(", ")}`
+      );
+      await api.delete_proxy_config(pk).catch((e) => {
+        if (!api.is_not_found(e)) throw e;
+      });
+      audit({
+        action: "reconcile",
+        caller: opts.caller,
+        traffic_id,
+        node_name: node_name_of(pk.client_id),
+        server_id: pk.server_id,
+        ports: null,
+        outcome: "success",
+        detail: `deleted orphaned proxy ${pk.name}`,
+      });
+    }
+    report.orphaned.push({ traffic_id, ...pk, action: opts.dry_run ? "none" : "deleted" });
+  }
+
+  if (!working) return;
+
+  // missing proxies in panel
+  const panel_names = new Set(panel.map((p) => p.name));
+  const missing = working.filter((pk) => !panel_names.has(pk.name));
+  if (missing.length) {
+    const cached_conf =
+      (await cache.at("traffic").at(traffic_id).at("conf").get())?.parseJSON<Cached.TrafficConfig>() ?? null;
+    for (const pk of missing) {
+      const proxy = cached_conf?.config.proxies.find((p) => p.name === pk.name);
+      if (opts.recreate && proxy && !opts.dry_run) {
+        console.log(
+          `Reconcile re-creating missing proxy: ${[`traffic_id=${traffic_id}`, `name=${pk.name}`].join(", ")}`
+        );
+        await api.create_proxy_config({
+          client_id: pk.client_id,
+          server_id: pk.server_id,
+          master: pk.master,
+          config: to_camel({ proxies: [proxy] }, HEADER_MAPS),
+          overwrite: false,
+        });
+        report.missing.push({ traffic_id, ...pk, action: "recreated" });
+        audit({
+          action: "reconcile",
+          caller: opts.caller,
+          traffic_id,
+          node_name: node_name_of(pk.client_id),
+          server_id: pk.server_id,
+          ports: null,
+          outcome: "success",
+          detail: `re-created missing proxy ${pk.name}`,
+        });
+      } else {
+        report.missing.push({ traffic_id, ...pk, action: "flagged" });
+      }
+    }
+  }
+
+  // ports reported by panel should be reserved by the traffic
+  for (const proxy of panel) {
+    if (!working_names.has(proxy.name)) continue;
+    const port = remote_port_of(proxy);
+    if (port === null) continue;
+    const owner = await get_port_owner(proxy.server_id, port);
+    if (owner === traffic_id) continue;
+    if (owner) {
+      report.ports.push({ server_id: proxy.server_id, port, traffic_id, action: "conflict", owner });
+    } else if (opts.dry_run) {
+      report.ports.push({ server_id: proxy.server_id, port, traffic_id, action: "none" });
+    } else {
+      const new_owner = await reserve_port(proxy.server_id, traffic_id, port);
+      const action = new_owner === traffic_id ? "reserved" : "conflict";
+      report.ports.push({ server_id: proxy.server_id, port, traffic_id, action, owner: new_owner });
+      audit({
+        action: "reconcile",
+        caller: opts.caller,
+        traffic_id,
+        node_name: node_name_of(proxy.client_id),
+        server_id: proxy.server_id,
+        ports: null,
+        outcome: action === "reserved" ? "success" : "failure",
+        detail: action === "reserved" ? `reserved port ${port}` : `port ${port} is reserved by ${new_owner}`,
+      });
+    }
+  }
+}
+
+/**
+ * Release reservations of working traffic whose ports are not reported by the panel.
+ */
+async function reconcile_ports(
+  panel_ports: Map<string, Set<string>>,
+  live_traffic: Set<string>,
+  unknown_ports: Set<string>,
+  report: ReconcileReport,
+  opts: Required<ReconcileOptions>
+) {
+  // dead traffic is handled by cleanup, traffic missing proxies or skipped is left as is
+  const incomplete = new Set([...report.missing.map((m) => m.traffic_id), ...report.skipped, ...unknown_ports]);
+  for (const server_id of await list_port_servers()) {
+    for (const [port, traffic_id] of await get_reserved_ports(server_id)) {
+      if (!live_traffic.has(traffic_id) || incomplete.has(traffic_id)) continue;
+      if (panel_ports.get(server_id)?.has(`${port}:${traffic_id}`)) continue;
+      await try_with_lock(`traffic:${traffic_id}`, async () => {
+        // the traffic may have been re-ported since the snapshot
+        const { working, panel } = await refresh_traffic(traffic_id);
+        if (!working) return;
+        if (panel.some((p) => p.server_id === server_id && remote_port_of(p) === port)) return;
+        if (!opts.dry_run) {
+          await release_ports(server_id, traffic_id, [port]);
+          audit({
+            action: "reconcile",
+            caller: opts.caller,
+            traffic_id,
+            node_name: null,
+            server_id,
+            ports: null,
+            outcome: "success",
+            detail: `released port ${port} not reported by frp-panel`,
+          });
+        }
+        report.ports.push({ server_id, port, traffic_id, action: opts.dry_run ? "none" : "released" });
+      });
+    }
+  }
+}
+
+/**
+ * Compare the `ret2shell:*` proxies in frp-panel with the working entries and port reservations,
+ * and repair the differences.
+ */
+export async function reconcile(options: ReconcileOptions = {}): Promise<ReconcileReport> {
+  const opts = {
+    dry_run: options.dry_run ?? false,
+    recreate: options.recreate ?? true,
+    caller: options.caller ?? "reconciler",
+  };
+  const report: ReconcileReport = { dry_run: opts.dry_run, orphaned: [], missing: [], ports: [], skipped: [] };
+
+  const panel_proxies = await api.list_all_proxy_configs("ret2shell:");
+  const panel_by_traffic = new Map<string, typeof panel_proxies>();
+  for (const proxy of panel_proxies) {
+    if (!proxy.name.startsWith("ret2shell:")) continue;
+    const traffic_id = traffic_id_of(proxy.name);
+    panel_by_traffic.set(traffic_id, [...(panel_by_traffic.get(traffic_id) ?? []), proxy]);
+  }
+
+  const working_by_traffic = new Map<string, api.ProxyConfigUniqueKey[] | null>();
+  for (const working_key of await cache.at("working").at("*").keys()) {
+    const traffic_id = working_key.split(":").pop()!;
+    working_by_traffic.set(
+      traffic_id,
+      (await cache.at("working").at(traffic_id).get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null
+    );
+  }
+
+  const panel_ports = new Map<string, Set<string>>(); // server_id -> "{port}:{traffic_id}"
+  const unknown_ports = new Set<string>(); // traffic whose remote ports cannot be read from panel
+  for (const [traffic_id, proxies] of panel_by_traffic) {
+    for (const proxy of proxies) {
+      const port = remote_port_of(proxy);
+      if (port === null) {
+        if (proxy.type === "tcp" || proxy.type === "udp") unknown_ports.add(traffic_id);
+        continue;
+      }
+      panel_ports.set(proxy.server_id, (panel_ports.get(proxy.server_id) ?? new Set()).add(`${port}:${traffic_id}`));
+    }
+  }
+
+  const traffic_ids = new Set([...panel_by_traffic.keys(), ...working_by_traffic.keys()]);
+  for (const traffic_id of traffic_ids) {
+    // a traffic being provisioned has proxies but no working entry yet, leave it alone
+    const done = await try_with_lock(`traffic:${traffic_id}`, async () => {
+      await reconcile_traffic(
+        traffic_id,
+        working_by_traffic.get(traffic_id) ?? null,
+        panel_by_traffic.get(traffic_id) ?? [],
+        report,
+        opts
+      ).catch((e) => console.error(`Error reconciling traffic ${traffic_id}:`, e));
+      return true;
+    });
+    if (!done) report.skipped.push(traffic_id);
+  }
+
+  const live_traffic = new Set([...working_by_traffic.entries()].filter(([_, w]) => w).map(([t]) => t));
+  await reconcile_ports(panel_ports, live_traffic, unknown_ports, report, opts);
+
+  console.info(
+    `Reconciled: ${[
+      `dry_run=${opts.dry_run}`,
+      `orphaned=${report.orphaned.length}`,
+      `missing=${report.missing.length}`,
+      `ports=${report.ports.length}`,
+      `skipped=${report.skipped.length}`,
+      `caller=${opts.caller}`,
+    ].join(", ")}`
+  );
+  return report;
+}
+
+export function start_reconciler() {
+  const is_leader = elect_leader("reconcile");
+  cleanup_ticker(
+    async () => {
+      // disabled, but keep ticking in case it is enabled by reloading config
+      if (CONFIG.app.reconcile_interval <= 0) return;
+      await reconcile();
+    },
+    CONFIG.app.cleanup_interval * 1000,
+    is_leader,
+    () => CONFIG.app.reconcile_interval || CONFIG.app.cleanup_interval
+  ).catch(console.error);
+}
@@ -0,0 +1,151 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { call, node, service } from "@/test/app";
+import { panel, start_panel } from "@/test/panel";
+
+beforeAll(start_panel);
+
+describe("traffic routes", () => {
+  test("create, inspect and delete a traffic", async () => {
+    const svc = service(2);
+    const created = await call("POST", "/v1/traffic", { node_name: node(), service: svc });
+    expect(created.status).toBe(200);
+    const remote_addr = (await created.json()) as Record<string, string>;
+    expect(Object.keys(remote_addr).sort()).toEqual(["p0:8000/tcp", "p1:8001/tcp"]);
+    expect([...panel.proxies().keys()].filter((name) => name.includes(svc.traffic))).toHaveLength(2);
+
+    const inspected = await call("GET", `/v1/traffic/${svc.traffic}`);
+    expect(inspected.status).toBe(200);
+    expect(((await inspected.json()) as { state: string }).state).toBe("ready");
+
+    const deleted = await call("DELETE", "/v1/traffic", { traffic_id: svc.traffic });
+    expect(deleted.status).toBe(200);
+    expect([...panel.proxies().keys()].filter((name) => name.includes(svc.traffic))).toHaveLength(0);
+    expect((await call("GET", `/v1/traffic/${svc.traffic}`)).status).toBe(404);
+
+    await panel.settle();
+    expect(panel.events(svc.traffic)).toEqual(["traffic.created", "traffic.deleted"]);
+  });
+});
+
+describe("metrics route", () => {
+  test("require a token of read scope unless public", async () => {
+    expect((await call("GET", "/metrics", undefined, "")).status).toBe(401);
+    const res = await call("GET", "/metrics");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("# TYPE");
+  });
+});
+
+describe("token scoping", () => {
+  test("extend from any node with a token not bound to nodes", async () => {
+    const svc = service();
+    expect((await call("POST", "/v1/traffic", { node_name: node(), service: svc })).status).toBe(200);
+    const extended = await call("POST", "/v1/traffic", { node_name: node(), service: svc }, "unscoped-token");
+    expect(extended.status).toBe(200);
+  });
+
+  test("reject a token bound to other nodes without failing the traffic", async () => {
+    const svc = service();
+    expect((await call("POST", "/v1/traffic", { node_name: node(), service: svc })).status).toBe(200);
+    const update = { node_name: "node-a", service: svc };
+    expect((await call("POST", "/v1/traffic", update, "node-a-token")).status).toBe(403);
+    expect((await call("POST", "/v1/traffic?async=true", update, "node-a-token")).status).toBe(403);
+    expect((await call("GET", `/v1/traffic/${svc.traffic}`, undefined, "node-a-token")).status).toBe(404);
+
+    const traffic = (await (await call("GET", `/v1/traffic/${svc.traffic}`)).json()) as { state: string };
+    expect(traffic.state).toBe("ready");
+    await panel.settle();
+    expect(panel.events(svc.traffic)).toEqual(["traffic.created"]);
+  });
+
+  test("a token bound to a node cannot name another node", async () => {
+    const res = await call("POST", "/v1/traffic", { node_name: node(), service: service() }, "node-a-token");
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("visitor config", () => {
+  test("reply a plain port map and serve the visitor config on its own", async () => {
+    const svc = service(1, {
+      ports: [{ name: "visitor", node_port: 22, protocol: "STCP", app_protocol: "raw" }],
+    });
+    const created = await call("POST", "/v1/traffic", { node_name: node(), service: svc });
+    expect(created.status).toBe(200);
+    expect(Object.keys((await created.json()) as Record<string, string>)).toEqual(["visitor:22/stcp"]);
+    expect(created.headers.get("Link")).toBe(`</v1/traffic/${svc.traffic}/visitor>; rel="visitor"`);
+
+    const visitor = await call("GET", `/v1/traffic/${svc.traffic}/visitor`);
+    expect(visitor.status).toBe(200);
+    expect(await visitor.text()).toContain('type = "stcp"');
+  });
+});
+
+describe("http options", () => {
+  test("accept them on http ports only", async () => {
+    const port = { name: "web", node_port: 80, protocol: "TCP", http_user: "u", http_password: "p" } as const;
+    const https = service(1, { ports: [{ ...port, app_protocol: "https" }] });
+    expect((await call("POST", "/v1/traffic", { node_name: node(), service: https })).status).toBe(400);
+    const tcp = service(1, { ports: [{ ...port, app_protocol: "raw" }] });
+    expect((await call("POST", "/v1/traffic", { node_name: node(), service: tcp })).status).toBe(400);
+
+    const http = service(1, { ports: [{ ...port, app_protocol: "http" }] });
+    expect((await call("POST", "/v1/traffic", { node_name: node(), service: http })).status).toBe(200);
+    const proxy = panel.proxies().get(`ret2shell:${http.traffic}:web:80/http`);
+    expect(JSON.parse(Buffer.from(proxy!.config, "base64").toString())).toMatchObject({ httpUser: "u" });
+  });
+});
+
+describe("quota", () => {
+  test("enforce the quota of the token", async () => {
+    const res = await call("POST", "/v1/traffic", { node_name: node(), service: service(2) }, "quota-token");
+    expect(res.status).toBe(429);
+    expect(await res.json()).toMatchObject({ error: "quota_exceeded", reason: "ports_per_traffic", limit: 1 });
+    const ok = await call("POST", "/v1/traffic", { node_name: node(), service: service(1) }, "quota-token");
+    expect(ok.status).toBe(200);
+  });
+
+  test("reject a lifetime already over or a created_at in the future", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const ended = service(1, { created_at: now - 7200, lifetime: 3600 });
+    expect((await call("POST", "/v1/traffic", { node_name: node(), service: ended })).status).toBe(400);
+    const future = service(1, { created_at: now + 3600 });
+    expect((await call("POST", "/v1/traffic", { node_name: node(), service: future })).status).toBe(400);
+  });
+});
+
+describe("service validation", () => {
+  test("reject a service without ports", async () => {
+    const res = await call("POST", "/v1/traffic", { node_name: node(), service: service(0) });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("async provisioning", () => {
+  test("reply 202 and settle ready", async () => {
+    const svc = service();
+    const res = await call("POST", "/v1/traffic?async=true", { node_name: node(), service: svc });
+    expect(res.status).toBe(202);
+    expect(res.headers.get("Location")).toBe(`/v1/traffic/${svc.traffic}`);
+    expect(await res.json()).toMatchObject({ traffic_id: svc.traffic, state: "pending" });
+
+    const traffic = (await (await call("GET", `/v1/traffic/${svc.traffic}?wait=5`)).json()) as { state: string };
+    expect(traffic.state).toBe("ready");
+  });
+
+  test("record the failure until a later request succeeds", async () => {
+    const node_name = node();
+    const svc = service();
+    panel.fail("v1/proxy/create_config", (json) => String(json.clientId).endsWith(node_name));
+    try {
+      expect((await call("POST", "/v1/traffic?async=true", { node_name, service: svc })).status).toBe(202);
+      const failed = await (await call("GET", `/v1/traffic/${svc.traffic}?wait=5`)).json();
+      expect(failed).toMatchObject({ state: "failed", error: { status: 502, error: "panel_error" } });
+    } finally {
+      panel.heal();
+    }
+
+    expect((await call("POST", "/v1/traffic", { node_name, service: svc })).status).toBe(200);
+    const ready = await (await call("GET", `/v1/traffic/${svc.traffic}`)).json();
+    expect(ready).toMatchObject({ state: "ready", error: null });
+  });
+});
@@ -1,14 +1,50 @@
 import { Hono } from "hono";
+import { createMiddleware } from "hono/factory";
 import { HTTPException } from "hono/http-exception";
 import z from "zod";
-import { auth } from "@/mw/auth";
-import { cleanup, delete_traffic, schemaService, update_traffic } from "@/traffic";
+import { PanelError } from "@/api";
+import { query_audit } from "@/audit";
+import CONFIG, { watch_config } from "@/config";
+import { cordon_server, list_cordoned, uncordon_server } from "@/cordon";
+import { LockError } from "@/lock";
+import { registry } from "@/metrics";
+import { type AuthEnv, auth, can_access, scope } from "@/mw/auth";
+import { ProvisionError } from "@/provision";
+import { QuotaError } from "@/quota";
+import { reconcile, start_reconciler } from "@/reconcile";
+import {
+  cleanup,
+  delete_traffic,
+  drain_server,
+  get_traffic,
+  get_visitor_config,
+  list_traffic,
+  provision_traffic,
+  schemaService,
+  type UpdateOptions,
+  update_traffic,
+  wait_provisioned,
+} from "@/traffic";
+import { start_webhook_worker } from "@/webhook";
 
 const app = new Hono();
 
-const app_v1 = new Hono();
+const app_v1 = new Hono<AuthEnv>();
 app.all("/ping", (c) => c.text("pong"));
 
+// tells the node names and per-server counts, so only to the tokens allowed to read traffic
+const metrics_auth = createMiddleware<AuthEnv>(async (c, next) => {
+  if (CONFIG.app.public_metrics) return next();
+  await auth(c, async () => {
+    await scope("read")(c, next);
+  });
+});
+
+app.get("/metrics", metrics_auth, async (c) => {
+  const body = await registry.metrics();
+  return c.text(body, 200, { "Content-Type": registry.contentType });
+});
+
 app_v1.use(auth);
 
 const schemaUpdate = z.object({
@@ -16,28 +52,205 @@ const schemaUpdate = z.object({
   service: schemaService,
 });
 
+const schemaUpdateQuery = z.object({
+  /**
+   * reply 202 and provision in background, `provision.async` if omitted
+   */
+  async: z.stringbool().optional(),
+});
+
 // create or update traffic
-app_v1.post("/traffic", async (c) => {
+app_v1.post("/traffic", scope("create"), async (c) => {
   const body = await c.req.json().catch(() => null);
   if (!body) throw new HTTPException(400, { message: "invalid request body" });
   const update = schemaUpdate.parse(body);
-  const remote_addr = await update_traffic(update.node_name, update.service);
+  const query = schemaUpdateQuery.parse(c.req.query());
+  const token = c.var.token;
+  if (!can_access(token, { node_name: update.node_name })) throw new HTTPException(403, { message: "forbidden" });
+  const opts: UpdateOptions = {
+    caller: token.name,
+    servers: token.servers,
+    quota: token.quota,
+    authorize: (owner) => can_access(token, owner),
+  };
+  if (query.async ?? CONFIG.provision.async) {
+    const state = await provision_traffic(update.node_name, update.service, opts);
+    c.header("Location", `/v1/traffic/${encodeURIComponent(update.service.traffic)}`);
+    return c.json({ traffic_id: update.service.traffic, ...state }, 202);
+  }
+  const remote_addr = await update_traffic(update.node_name, update.service, opts);
+  // the reply stays a plain port map, the frpc visitor config of STCP / XTCP ports is downloaded on its own
+  if (await get_visitor_config(update.service.traffic)) {
+    c.header("Link", `</v1/traffic/${encodeURIComponent(update.service.traffic)}/visitor>; rel="visitor"`);
+  }
   return c.json(remote_addr);
 });
 
-app_v1.delete("/traffic", async (c) => {
+const schemaListQuery = z.object({
+  node_name: z.string().optional(),
+  server_id: z.string().optional(),
+  protocol: z.enum(["http", "https", "tcp", "udp", "stcp", "xtcp"]).optional(),
+  page: z.coerce.number().int().positive().optional(),
+  page_size: z.coerce.number().int().positive().max(100).optional(),
+});
+
+// list active traffic
+app_v1.get("/traffic", scope("read"), async (c) => {
+  const filter = schemaListQuery.parse(c.req.query());
+  const token = c.var.token;
+  const result = await list_traffic({ ...filter, authorize: (owner) => can_access(token, owner) });
+  return c.json(result);
+});
+
+const schemaInspectQuery = z.object({
+  /**
+   * in seconds, wait for a pending traffic to be ready or failed
+   */
+  wait: z.coerce.number().int().nonnegative().max(60).optional(),
+});
+
+// inspect a traffic
+app_v1.get("/traffic/:traffic_id", scope("read"), async (c) => {
+  const traffic_id = c.req.param("traffic_id");
+  const { wait } = schemaInspectQuery.parse(c.req.query());
+  let traffic = await get_traffic(traffic_id);
+  // do not tell the existence of invisible traffic
+  if (!traffic || !can_access(c.var.token, traffic)) throw new HTTPException(404, { message: "traffic not found" });
+  if (wait && traffic.state === "pending") {
+    await wait_provisioned(traffic_id, wait * 1000);
+    traffic = await get_traffic(traffic_id);
+    if (!traffic) throw new HTTPException(404, { message: "traffic not found" });
+  }
+  return c.json(traffic);
+});
+
+// download the frpc visitor config of STCP / XTCP ports
+app_v1.get("/traffic/:traffic_id/visitor", scope("read"), async (c) => {
+  const traffic_id = c.req.param("traffic_id");
+  const traffic = await get_traffic(traffic_id);
+  if (!traffic || !can_access(c.var.token, traffic)) throw new HTTPException(404, { message: "traffic not found" });
+  const visitor = traffic.visitor;
+  if (!visitor) throw new HTTPException(404, { message: "no secret port in traffic" });
+  return c.text(visitor, 200, {
+    "Content-Type": "application/toml; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${traffic_id.replace(/[^\w.-]+/g, "_")}.visitor.toml"`,
+  });
+});
+
+app_v1.delete("/traffic", scope("delete"), async (c) => {
   const body = await c.req.json().catch(() => null);
   if (!body) throw new HTTPException(400, { message: "invalid request body" });
   const { traffic_id } = z.object({ traffic_id: z.string() }).parse(body);
-  const deleted = await delete_traffic(traffic_id);
+  const token = c.var.token;
+  const deleted = await delete_traffic(traffic_id, {
+    caller: token.name,
+    authorize: (owner) => can_access(token, owner),
+  });
   return c.json(deleted);
 });
 
+const schemaAuditQuery = z.object({
+  traffic_id: z.string().optional(),
+  node_name: z.string().optional(),
+  /**
+   * seconds, inclusive
+   */
+  since: z.coerce.number().int().nonnegative().optional(),
+  until: z.coerce.number().int().nonnegative().optional(),
+  /**
+   * `next` of the previous page
+   */
+  after: z
+    .string()
+    .regex(/^\d+-\d+$/)
+    .optional(),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+// query the audit log of traffic mutations
+app_v1.get("/audit", scope("read"), async (c) => {
+  const query = schemaAuditQuery.parse(c.req.query());
+  const token = c.var.token;
+  const result = await query_audit({ ...query, authorize: (record) => can_access(token, record) });
+  return c.json(result);
+});
+
+// reconcile frp-panel proxies with the cache on demand
+app_v1.post("/admin/reconcile", scope("admin"), async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const opts = z.object({ dry_run: z.boolean().default(false), recreate: z.boolean().default(true) }).parse(body ?? {});
+  const report = await reconcile({ ...opts, caller: c.var.token.name });
+  return c.json(report);
+});
+
+function assert_server(node_name: string) {
+  if (!CONFIG.server.some((sc) => sc.node_name === node_name)) {
+    throw new HTTPException(404, { message: "server not found" });
+  }
+}
+
+// list servers with cordon state
+app_v1.get("/admin/servers", scope("admin"), async (c) => {
+  const cordoned = await list_cordoned();
+  return c.json(
+    CONFIG.server.map((sc) => ({
+      node_name: sc.node_name,
+      port_range: sc.port_range,
+      remote_addr: sc.remote_addr,
+      cordon: cordoned.get(sc.node_name) ?? null,
+    }))
+  );
+});
+
+// stop choosing the server for new traffic
+app_v1.post("/admin/servers/:node_name/cordon", scope("admin"), async (c) => {
+  const node_name = c.req.param("node_name");
+  assert_server(node_name);
+  const body = await c.req.json().catch(() => ({}));
+  const { reason } = z.object({ reason: z.string().default("") }).parse(body ?? {});
+  const info = await cordon_server(node_name, reason, c.var.token.name);
+  return c.json({ node_name, cordon: info });
+});
+
+app_v1.delete("/admin/servers/:node_name/cordon", scope("admin"), async (c) => {
+  const node_name = c.req.param("node_name");
+  assert_server(node_name);
+  await uncordon_server(node_name, c.var.token.name);
+  return c.json({ node_name, cordon: null });
+});
+
+// cordon the server and move its active traffic to other servers
+app_v1.post("/admin/servers/:node_name/drain", scope("admin"), async (c) => {
+  const node_name = c.req.param("node_name");
+  assert_server(node_name);
+  const body = await c.req.json().catch(() => ({}));
+  const { reason, migrate } = z
+    .object({ reason: z.string().default("drain"), migrate: z.boolean().default(true) })
+    .parse(body ?? {});
+  const cordon = await cordon_server(node_name, reason, c.var.token.name);
+  const migrated = migrate ? await drain_server(node_name, c.var.token.name) : [];
+  return c.json({ node_name, cordon, migrated });
+});
+
 app.route("/v1", app_v1);
 
+// in seconds, for the requests contending on a lock
+const LOCK_RETRY_AFTER = 1;
+
 app.onError((e, c) => {
   if (e instanceof HTTPException) {
     return c.text(e.message, e.status);
+  } else if (e instanceof QuotaError) {
+    return c.json(e, 429);
+  } else if (e instanceof ProvisionError) {
+    return c.json(e, e.status);
+  } else if (e instanceof LockError) {
+    // another request holds the traffic, or the lock was lost midway
+    console.warn(e.message);
+    return c.json(e, 503, { "Retry-After": String(LOCK_RETRY_AFTER) });
+  } else if (e instanceof PanelError) {
+    console.error(e);
+    return c.json({ error: "panel_error", message: e.message }, 502);
   } else if (e instanceof z.ZodError) {
     return c.text("invalid request body", 400);
   } else {
@@ -46,6 +259,9 @@ app.onError((e, c) => {
   }
 });
 
+watch_config();
 cleanup();
+start_reconciler();
+start_webhook_worker();
 
 export default app;
@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test";
+import { MemoryDB, MemoryStorage } from "@/storage";
+import { sleep } from "@/utils";
+
+describe("MemoryDB", () => {
+  test("spop pops distinct members and drops the empty set", () => {
+    const db = new MemoryDB();
+    db.sadd("s", ...Array.from({ length: 1000 }, (_, i) => i.toString()));
+    const popped = db.spop("s", 10);
+    expect(new Set(popped).size).toBe(10);
+    expect(db.scard("s")).toBe(990);
+    const rest = db.spop("s", 1000);
+    expect(new Set([...popped, ...rest]).size).toBe(1000);
+    expect(db.exists("s")).toBe(false);
+    expect(db.spop("s", 1)).toEqual([]);
+  });
+});
+
+describe("MemoryStorage", () => {
+  test("expired keys are swept without being read", async () => {
+    const storage = new MemoryStorage();
+    const expired: string[] = [];
+    await storage.set("a", "1", 1);
+    await storage.subscribe_expired("*", (key) => expired.push(key));
+    await sleep(2100);
+    expect(expired).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,567 @@
+import { createClient } from "redis";
+
+/**
+ * An atomic script, run as Lua by Redis, or as the equivalent `local` function by the in-memory storage.
+ * `local` runs synchronously, so nothing else can interleave with it.
+ */
+export interface Script {
+  lua: string;
+  local: (db: MemoryDB, keys: string[], args: string[]) => unknown;
+}
+
+export function define_script(lua: string, local: Script["local"]): Script {
+  return { lua, local };
+}
+
+export interface StreamEntry {
+  id: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * Storage backend of `Cache`, the replies follow Redis.
+ */
+export interface CacheStorage {
+  ping(): Promise<void>;
+  eval(script: Script, keys: string[], args: string[]): Promise<unknown>;
+  keys(pattern: string): Promise<string[]>;
+  del(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  expire(key: string, sec: number): Promise<void>;
+  /**
+   * @returns -2 if not found, -1 if no expire
+   */
+  ttl(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, expireSec?: number): Promise<void>;
+  hget(key: string, field: string): Promise<string | null>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  hlen(key: string): Promise<number>;
+  hset(key: string, field: string, value: string): Promise<void>;
+  hdel(key: string, field: string): Promise<void>;
+  /**
+   * Append to the stream, entries older than `min_time` in milliseconds are trimmed.
+   * @returns The entry id, `{ms}-{seq}`.
+   */
+  xadd(key: string, fields: Record<string, string>, min_time?: number): Promise<string>;
+  /**
+   * Entries with `start <= id <= end` in order, `-` and `+` for the ends, `(` prefixed to exclude.
+   */
+  xrange(key: string, start: string, end: string, count: number): Promise<StreamEntry[]>;
+  /**
+   * Call `handler` with the keys matching the glob `pattern` once they expire.
+   */
+  subscribe_expired(pattern: string, handler: (key: string) => void): Promise<void>;
+}
+
+/*=== Redis ===*/
+
+export class RedisStorage implements CacheStorage {
+  private client: ReturnType<typeof createClient>;
+
+  constructor(private readonly url: string) {
+    this.client = createClient({ url });
+  }
+
+  private async conn() {
+    if (!this.client.isOpen) {
+      await this.client.connect();
+    }
+    return this.client;
+  }
+
+  async ping() {
+    await (await this.conn()).ping();
+  }
+
+  async eval(script: Script, keys: string[], args: string[]) {
+    return (await this.conn()).eval(script.lua, { keys, arguments: args });
+  }
+
+  async keys(pattern: string) {
+    const conn = await this.conn();
+    const result: string[] = [];
+    for await (const batch of conn.scanIterator({ MATCH: pattern, COUNT: 1000 })) {
+      result.push(...batch);
+    }
+    return [...new Set(result)];
+  }
+
+  async del(key: string) {
+    await (await this.conn()).del(key);
+  }
+
+  async exists(key: string) {
+    return (await (await this.conn()).exists(key)) > 0;
+  }
+
+  async expire(key: string, sec: number) {
+    await (await this.conn()).expire(key, sec);
+  }
+
+  async ttl(key: string) {
+    return (await this.conn()).ttl(key);
+  }
+
+  async get(key: string) {
+    return (await this.conn()).get(key);
+  }
+
+  async set(key: string, value: string, expireSec?: number) {
+    const conn = await this.conn();
+    if (expireSec) {
+      await conn.setEx(key, expireSec, value);
+    } else {
+      await conn.set(key, value);
+    }
+  }
+
+  async hget(key: string, field: string) {
+    return (await (await this.conn()).hGet(key, field)) ?? null;
+  }
+
+  async hgetall(key: string) {
+    return (await this.conn()).hGetAll(key);
+  }
+
+  async hlen(key: string) {
+    return (await this.conn()).hLen(key);
+  }
+
+  async hset(key: string, field: string, value: string) {
+    await (await this.conn()).hSet(key, field, value);
+  }
+
+  async hdel(key: string, field: string) {
+    await (await this.conn()).hDel(key, field);
+  }
+
+  async xadd(key: string, fields: Record<string, string>, min_time?: number) {
+    const conn = await this.conn();
+    return conn.xAdd(
+      key,
+      "*",
+      fields,
+      min_time === undefined ? undefined : { TRIM: { strategy: "MINID", strategyModifier: "~", threshold: min_time } }
+    );
+  }
+
+  async xrange(key: string, start: string, end: string, count: number) {
+    const entries = await (await this.conn()).xRange(key, start, end, { COUNT: count });
+    return entries.map((e) => ({ id: e.id, fields: { ...e.message } }));
+  }
+
+  /**
+   * Subscribe to the keyevent notifications, `notify-keyspace-events` is turned on if it is not yet.
+   * Managed Redis often denies `CONFIG`, the flags are expected to be set by the operator then.
+   */
+  async subscribe_expired(pattern: string, handler: (key: string) => void) {
+    const conn = await this.conn();
+    try {
+      const flags = (await conn.configGet("notify-keyspace-events"))["notify-keyspace-events"] ?? "";
+      const missing = ["E", flags.includes("A") ? "" : "x"].filter((f) => f && !flags.includes(f)).join("");
+      if (missing) await conn.configSet("notify-keyspace-events", flags + missing);
+    } catch (e) {
+      console.warn(
+        "Cache: cannot enable notify-keyspace-events, set `Ex` on the server or expiry is only noticed by cleanup:",
+        e instanceof Error ? e.message : e
+      );
+    }
+    const re = glob_to_regexp(pattern);
+    // a connection in subscriber mode cannot run other commands
+    const subscriber = conn.duplicate();
+    subscriber.on("error", (e) => console.error("Cache subscriber error:", e));
+    await subscriber.connect();
+    const db = new URL(this.url).pathname.slice(1) || "0";
+    await subscriber.subscribe(`__keyevent@${db}__:expired`, (key) => {
+      if (re.test(key)) handler(key);
+    });
+  }
+}
+
+/*=== Memory ===*/
+
+type Entry =
+  | { type: "string"; value: string; expire_at?: number }
+  | { type: "hash"; value: Map<string, string>; expire_at?: number }
+  | { type: "set"; value: Set<string>; expire_at?: number }
+  | { type: "zset"; value: Map<string, number>; expire_at?: number }
+  | { type: "stream"; value: Map<string, Record<string, string>>; last_id?: [number, number]; expire_at?: number };
+
+/**
+ * Glob pattern of `SCAN MATCH`, `*`, `?` and `[...]` are supported.
+ */
+function glob_to_regexp(pattern: string) {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]!;
+    if (c === "*") source += ".*";
+    else if (c === "?") source += ".";
+    else if (c === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end < 0) source += "\\[";
+      else {
+        source += `[${pattern.slice(i + 1, end).replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (c === "\\" && i + 1 < pattern.length) source += `\\${pattern[++i]}`;
+    else source += c.replace(/[.+^${}()|\\/]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * Parse a stream id bound, `{ms}` alone is `{ms}-0` as `start` and `{ms}-max` as `end`.
+ */
+function parse_stream_id(id: string, end: boolean): [number, number] {
+  if (id === "-") return [0, 0];
+  if (id === "+") return [Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY];
+  const [ms, seq] = id.split("-");
+  return [Number(ms), seq === undefined ? (end ? Number.POSITIVE_INFINITY : 0) : Number(seq)];
+}
+
+function compare_stream_id(a: [number, number], b: [number, number]) {
+  return a[0] - b[0] || a[1] - b[1];
+}
+
+// extra members `spop` picks from, keeps the popped members unpredictable
+const SPOP_WINDOW = 64;
+
+/**
+ * Synchronous subset of Redis commands on a process local keyspace, expired keys are dropped lazily.
+ */
+export class MemoryDB {
+  private data = new Map<string, Entry>();
+  /**
+   * Called with every key dropped on expiry, lazily or by `sweep`.
+   */
+  on_expired: ((key: string) => void) | null = null;
+
+  private entry(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry?.expire_at !== undefined && entry.expire_at <= Date.now()) {
+      this.data.delete(key);
+      this.on_expired?.(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private typed<T extends Entry["type"]>(key: string, type: T, create = false) {
+    let entry = this.entry(key);
+    if (entry && entry.type !== type) {
+      throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
+    }
+    if (!entry && create) {
+      entry = { type, value: type === "string" ? "" : type === "set" ? new Set() : new Map() } as Entry;
+      this.data.set(key, entry);
+    }
+    return entry as Extract<Entry, { type: T }> | undefined;
+  }
+
+  /**
+   * Redis removes a hash, set or zset once it gets empty.
+   */
+  private drop_empty(key: string) {
+    const entry = this.data.get(key);
+    if (entry && entry.type !== "string" && entry.value.size === 0) this.data.delete(key);
+  }
+
+  /**
+   * Drop all the expired keys.
+   * @returns The expired keys.
+   */
+  sweep(): string[] {
+    const now = Date.now();
+    const expired: string[] = [];
+    for (const [key, entry] of this.data) {
+      if (entry.expire_at !== undefined && entry.expire_at <= now) {
+        this.data.delete(key);
+        this.on_expired?.(key);
+        expired.push(key);
+      }
+    }
+    return expired;
+  }
+
+  keys(pattern: string) {
+    const re = glob_to_regexp(pattern);
+    return [...this.data.keys()].filter((key) => re.test(key) && this.entry(key));
+  }
+
+  exists(key: string) {
+    return this.entry(key) !== undefined;
+  }
+
+  del(...keys: string[]) {
+    let count = 0;
+    for (const key of keys) {
+      if (this.entry(key)) count++;
+      this.data.delete(key);
+    }
+    return count;
+  }
+
+  pexpire(key: string, ms: number) {
+    const entry = this.entry(key);
+    if (!entry) return false;
+    entry.expire_at = Date.now() + ms;
+    return true;
+  }
+
+  /**
+   * @returns -2 if not found, -1 if no expire, otherwise in seconds
+   */
+  ttl(key: string) {
+    const entry = this.entry(key);
+    if (!entry) return -2;
+    if (entry.expire_at === undefined) return -1;
+    return Math.ceil((entry.expire_at - Date.now()) / 1000);
+  }
+
+  get(key: string) {
+    return this.typed(key, "string")?.value ?? null;
+  }
+
+  /**
+   * @returns Whether the value is set, false if `nx` and the key exists.
+   */
+  set(key: string, value: string, opts: { px?: number; nx?: boolean } = {}) {
+    if (opts.nx && this.entry(key)) return false;
+    this.data.set(key, {
+      type: "string",
+      value,
+      expire_at: opts.px === undefined ? undefined : Date.now() + opts.px,
+    });
+    return true;
+  }
+
+  incr(key: string) {
+    const entry = this.typed(key, "string", true)!;
+    const next = (parseInt(entry.value || "0", 10) || 0) + 1;
+    entry.value = next.toString();
+    return next;
+  }
+
+  hget(key: string, field: string) {
+    return this.typed(key, "hash")?.value.get(field) ?? null;
+  }
+
+  hexists(key: string, field: string) {
+    return this.typed(key, "hash")?.value.has(field) ?? false;
+  }
+
+  hset(key: string, field: string, value: string) {
+    this.typed(key, "hash", true)!.value.set(field, value);
+  }
+
+  hdel(key: string, ...fields: string[]) {
+    const entry = this.typed(key, "hash");
+    let count = 0;
+    for (const field of fields) if (entry?.value.delete(field)) count++;
+    this.drop_empty(key);
+    return count;
+  }
+
+  hgetall(key: string): Record<string, string> {
+    return Object.fromEntries(this.typed(key, "hash")?.value ?? []);
+  }
+
+  hlen(key: string) {
+    return this.typed(key, "hash")?.value.size ?? 0;
+  }
+
+  sadd(key: string, ...members: string[]) {
+    const set = this.typed(key, "set", true)!.value;
+    for (const m of members) set.add(m);
+  }
+
+  srem(key: string, ...members: string[]) {
+    const entry = this.typed(key, "set");
+    for (const m of members) entry?.value.delete(m);
+    this.drop_empty(key);
+  }
+
+  scard(key: string) {
+    return this.typed(key, "set")?.value.size ?? 0;
+  }
+
+  /**
+   * Pop `count` members, picked at random from the oldest `count + SPOP_WINDOW` ones,
+   * so that a call costs O(count) instead of O(size) on a large set like the free ports.
+   */
+  spop(key: string, count: number) {
+    const entry = this.typed(key, "set");
+    if (!entry) return [];
+    const window: string[] = [];
+    for (const m of entry.value) {
+      if (window.length >= count + SPOP_WINDOW) break;
+      window.push(m);
+    }
+    const result: string[] = [];
+    while (result.length < count && window.length) {
+      const i = Math.floor(Math.random() * window.length);
+      // swap remove, the order of the window does not matter
+      const m = window[i]!;
+      window[i] = window[window.length - 1]!;
+      window.pop();
+      entry.value.delete(m);
+      result.push(m);
+    }
+    this.drop_empty(key);
+    return result;
+  }
+
+  zadd(key: string, score: number, member: string) {
+    this.typed(key, "zset", true)!.value.set(member, score);
+  }
+
+  zrem(key: string, member: string) {
+    this.typed(key, "zset")?.value.delete(member);
+    this.drop_empty(key);
+  }
+
+  /**
+   * @see CacheStorage.xadd
+   */
+  xadd(key: string, fields: Record<string, string>, min_time?: number) {
+    const entry = this.typed(key, "stream", true)!;
+    const now = Date.now();
+    const last = entry.last_id ?? [0, 0];
+    const id: [number, number] = now > last[0] ? [now, 0] : [last[0], last[1] + 1];
+    entry.last_id = id;
+    entry.value.set(id.join("-"), { ...fields });
+    if (min_time !== undefined) {
+      // ids are in insertion order
+      for (const old of entry.value.keys()) {
+        if (parse_stream_id(old, false)[0] >= min_time) break;
+        entry.value.delete(old);
+      }
+    }
+    return id.join("-");
+  }
+
+  /**
+   * @see CacheStorage.xrange
+   */
+  xrange(key: string, start: string, end: string, count: number) {
+    const entry = this.typed(key, "stream");
+    if (!entry) return [];
+    const exclusive_start = start.startsWith("(");
+    const exclusive_end = end.startsWith("(");
+    const lo = parse_stream_id(exclusive_start ? start.slice(1) : start, false);
+    const hi = parse_stream_id(exclusive_end ? end.slice(1) : end, true);
+    const result: StreamEntry[] = [];
+    for (const [id, fields] of entry.value) {
+      if (result.length >= count) break;
+      const cur = parse_stream_id(id, false);
+      const from = compare_stream_id(cur, lo);
+      const to = compare_stream_id(cur, hi);
+      if (from < 0 || (exclusive_start && from === 0)) continue;
+      if (to > 0 || (exclusive_end && to === 0)) break;
+      result.push({ id, fields: { ...fields } });
+    }
+    return result;
+  }
+
+  /**
+   * Members with `min <= score <= max` ordered by score.
+   */
+  zrangebyscore(key: string, min: number, max: number, limit = Number.POSITIVE_INFINITY) {
+    const entry = this.typed(key, "zset");
+    if (!entry) return [];
+    return [...entry.value]
+      .filter(([, score]) => score >= min && score <= max)
+      .sort(([a, sa], [b, sb]) => sa - sb || (a < b ? -1 : a > b ? 1 : 0))
+      .slice(0, limit)
+      .map(([m]) => m);
+  }
+}
+
+/**
+ * Process local storage, for a single replica without Redis.
+ */
+export class MemoryStorage implements CacheStorage {
+  readonly db = new MemoryDB();
+  private expired_handlers: { re: RegExp; handler: (key: string) => void }[] = [];
+
+  /**
+   * Expired keys are swept every second, like the active expiry of Redis,
+   * so that keys nobody reads again do not pile up.
+   */
+  constructor() {
+    this.db.on_expired = (key) => {
+      // deferred, the key may be dropped in the middle of a script
+      queueMicrotask(() => {
+        for (const h of this.expired_handlers) if (h.re.test(key)) h.handler(key);
+      });
+    };
+    setInterval(() => this.db.sweep(), 1000).unref();
+  }
+
+  async ping() {}
+
+  async eval(script: Script, keys: string[], args: string[]) {
+    return script.local(this.db, keys, args);
+  }
+
+  async keys(pattern: string) {
+    return this.db.keys(pattern);
+  }
+
+  async del(key: string) {
+    this.db.del(key);
+  }
+
+  async exists(key: string) {
+    return this.db.exists(key);
+  }
+
+  async expire(key: string, sec: number) {
+    this.db.pexpire(key, sec * 1000);
+  }
+
+  async ttl(key: string) {
+    return this.db.ttl(key);
+  }
+
+  async get(key: string) {
+    return this.db.get(key);
+  }
+
+  async set(key: string, value: string, expireSec?: number) {
+    this.db.set(key, value, expireSec ? { px: expireSec * 1000 } : {});
+  }
+
+  async hget(key: string, field: string) {
+    return this.db.hget(key, field);
+  }
+
+  async hgetall(key: string) {
+    return this.db.hgetall(key);
+  }
+
+  async hlen(key: string) {
+    return this.db.hlen(key);
+  }
+
+  async hset(key: string, field: string, value: string) {
+    this.db.hset(key, field, value);
+  }
+
+  async hdel(key: string, field: string) {
+    this.db.hdel(key, field);
+  }
+
+  async xadd(key: string, fields: Record<string, string>, min_time?: number) {
+    return this.db.xadd(key, fields, min_time);
+  }
+
+  async xrange(key: string, start: string, end: string, count: number) {
+    return this.db.xrange(key, start, end, count);
+  }
+
+  async subscribe_expired(pattern: string, handler: (key: string) => void) {
+    this.expired_handlers.push({ re: glob_to_regexp(pattern), handler });
+  }
+}
@@ -0,0 +1,98 @@
+import { createHash } from "node:crypto";
+import CONFIG, { type ServerConfig } from "@/config";
+import { count_reserved_ports } from "@/ports";
+
+export interface Candidate {
+  /**
+   * frp server id, `<username>.s.<node_name>`
+   */
+  id: string;
+  config: ServerConfig;
+}
+
+export interface SelectContext {
+  /**
+   * node name of the k8s node which requests the traffic
+   */
+  node_name: string;
+  traffic_id: string;
+}
+
+export interface SelectStrategy {
+  name: string;
+  /**
+   * Pick one server from the candidates, candidates are guaranteed to be non-empty.
+   */
+  select(candidates: Candidate[], ctx: SelectContext): Promise<Candidate>;
+}
+
+const random: SelectStrategy = {
+  name: "random",
+  async select(candidates) {
+    return candidates[Math.floor(Math.random() * candidates.length)]!;
+  },
+};
+
+const least_occupied: SelectStrategy = {
+  name: "least-occupied",
+  async select(candidates) {
+    // compare by the ratio of occupied ports, so that small ranges are not overloaded
+    const scored = await Promise.all(
+      candidates.map(async (c) => {
+        const occupied = await count_reserved_ports(c.id);
+        const total = c.config.port_range[1] - c.config.port_range[0] + 1;
+        return { candidate: c, score: occupied / total };
+      })
+    );
+    const min = Math.min(...scored.map((s) => s.score));
+    const best = scored.filter((s) => s.score === min);
+    return best[Math.floor(Math.random() * best.length)]!.candidate;
+  },
+};
+
+const weighted: SelectStrategy = {
+  name: "weighted",
+  async select(candidates, ctx) {
+    const weights = candidates.map((c) => c.config.weight);
+    const sum = weights.reduce((a, b) => a + b, 0);
+    if (sum <= 0) return random.select(candidates, ctx);
+    let r = Math.random() * sum;
+    for (let i = 0; i < candidates.length; i++) {
+      r -= weights[i]!;
+      if (r < 0) return candidates[i]!;
+    }
+    return candidates[candidates.length - 1]!;
+  },
+};
+
+const sticky: SelectStrategy = {
+  name: "sticky",
+  async select(candidates, ctx) {
+    // rendezvous hashing, a node only moves when its server leaves the candidates
+    let best = candidates[0]!;
+    let best_score = -1n;
+    for (const c of candidates) {
+      const digest = createHash("sha256").update(`${ctx.node_name}\0${c.id}`).digest();
+      const score = digest.readBigUInt64BE(0);
+      if (score > best_score) {
+        best = c;
+        best_score = score;
+      }
+    }
+    return best;
+  },
+};
+
+const strategies: Record<string, SelectStrategy> = {};
+
+export function register_strategy(strategy: SelectStrategy) {
+  strategies[strategy.name] = strategy;
+}
+
+for (const s of [random, least_occupied, weighted, sticky]) register_strategy(s);
+
+export function get_strategy(name = CONFIG.app.server_strategy) {
+  const strategy = strategies[name];
+  if (!strategy) throw new Error(`Unknown server selection strategy: ${name}`);
+  return strategy;
+}
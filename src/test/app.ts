@@ -0,0 +1,39 @@
+import { nanoid } from "nanoid";
+import app from "@/routes/index";
+import type { Service } from "@/traffic";
+
+/**
+ * Call the app in process with the bearer token, `test` is the legacy admin token of `config.test.toml`.
+ */
+export function call(method: string, path: string, body?: unknown, token = "test") {
+  return app.request(path, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/**
+ * A service of a unique traffic id with TCP ports, so that the tests never see each other.
+ */
+export function service(ports = 1, overrides: Partial<Service> = {}): Service {
+  return {
+    traffic: `t-${nanoid(8)}`,
+    created_at: Math.floor(Date.now() / 1000),
+    lifetime: 3600,
+    ports: Array.from({ length: ports }, (_, i) => ({
+      name: `p${i}`,
+      node_port: 8000 + i,
+      protocol: "TCP" as const,
+      app_protocol: "raw" as const,
+    })),
+    ...overrides,
+  };
+}
+
+/**
+ * A k8s node name of its own, so that the per-node quota of the tests never add up.
+ */
+export function node() {
+  return `node-${nanoid(6).toLowerCase()}`;
+}
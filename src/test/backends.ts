@@ -0,0 +1,32 @@
+import { nanoid } from "nanoid";
+import { type CacheStorage, MemoryStorage, RedisStorage, type Script } from "@/storage";
+
+export interface Backend {
+  name: string;
+  storage: CacheStorage;
+}
+
+/**
+ * Storages every script is checked against, the Lua one only if `$REDIS_URL` is set.
+ */
+export function backends(): Backend[] {
+  const result: Backend[] = [{ name: "memory", storage: new MemoryStorage() }];
+  if (process.env.REDIS_URL) result.push({ name: "redis", storage: new RedisStorage(process.env.REDIS_URL) });
+  return result;
+}
+
+/**
+ * Keys of a single test, so that runs never see each other on a shared Redis.
+ */
+export function test_keys<T extends string>(...names: T[]): Record<T, string> {
+  const prefix = `test:${nanoid(8)}`;
+  return Object.fromEntries(names.map((n) => [n, `${prefix}:${n}`])) as Record<T, string>;
+}
+
+export function run(backend: Backend, script: Script, keys: string[], args: (string | number)[] = []) {
+  return backend.storage.eval(
+    script,
+    keys,
+    args.map((a) => a.toString())
+  );
+}
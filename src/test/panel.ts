@@ -0,0 +1,200 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { Base64 } from "js-base64";
+import CONFIG from "@/config";
+import { server_id_of, sleep } from "@/utils";
+import type { WebhookEvent } from "@/webhook";
+
+// a fake frp-panel serving every `[[master]]` of `config.test.toml` under `/{master}/api`,
+// and a sink at `/hook` collecting the webhook deliveries
+
+export const PANEL_PORT = 18731;
+
+interface FakeProxy {
+  client_id: string;
+  server_id: string;
+  name: string;
+  type: string;
+  /**
+   * base64 of the camel case proxy, as posted
+   */
+  config: string;
+  remote_port?: number;
+}
+
+type Json = Record<string, unknown>;
+
+/**
+ * @returns true to answer the call with an error instead
+ */
+type FailWhen = (json: Json) => boolean;
+
+const proxies = new Map<string, Map<string, FakeProxy>>();
+const failures = new Map<string, { message: string; when: FailWhen }[]>();
+const events: WebhookEvent[] = [];
+
+function proxies_of(master: string) {
+  let m = proxies.get(master);
+  if (!m) {
+    m = new Map();
+    proxies.set(master, m);
+  }
+  return m;
+}
+
+const key_of = (client_id: string, server_id: string, name: string) => `${client_id}|${server_id}|${name}`;
+
+const ok = (body: Json = {}) => ({ code: 200, msg: "", body });
+const status = (code: number, message: string) => ok({ status: { code, message } });
+
+function page_of<T>(items: T[], json: Json) {
+  const page = Number(json.page ?? 1);
+  const page_size = Number(json.pageSize ?? 8);
+  return items.slice((page - 1) * page_size, page * page_size);
+}
+
+function to_record(p: FakeProxy) {
+  return {
+    id: 1,
+    name: p.name,
+    type: p.type,
+    client_id: p.client_id,
+    server_id: p.server_id,
+    config: p.config,
+  };
+}
+
+function handle(master: string, endpoint: string, json: Json) {
+  const failure = failures.get(endpoint)?.find((f) => f.when(json));
+  if (failure) return { code: 500, msg: failure.message };
+  const store = proxies_of(master);
+  const keyword = String(json.keyword ?? "");
+  switch (endpoint) {
+    case "v1/auth/login":
+      return ok({ token: `token-${master}` });
+    case "v1/server/list": {
+      const servers = CONFIG.server
+        .filter((sc) => sc.master === master)
+        .map((sc) => ({ id: server_id_of(sc.node_name) }))
+        .filter((s) => s.id.includes(keyword));
+      return ok({ total: servers.length, servers: page_of(servers, json) });
+    }
+    case "v1/client/list":
+      return ok({ total: 0, clients: [] });
+    case "v1/proxy/create_config": {
+      const config = JSON.parse(Base64.decode(String(json.config))) as {
+        proxies: { name: string; type: string; remotePort?: number }[];
+      };
+      for (const p of config.proxies) {
+        const key = key_of(String(json.clientId), String(json.serverId), p.name);
+        if (store.has(key) && !json.overwrite) return status(3, `proxy ${p.name} already exists`);
+        store.set(key, {
+          client_id: String(json.clientId),
+          server_id: String(json.serverId),
+          name: p.name,
+          type: p.type,
+          config: Base64.encode(JSON.stringify(p)),
+          remote_port: p.remotePort,
+        });
+      }
+      return ok();
+    }
+    case "v1/proxy/delete_config": {
+      const key = key_of(String(json.clientId), String(json.serverId), String(json.name));
+      if (!store.delete(key)) return status(2, "proxy not found");
+      return ok();
+    }
+    case "v1/proxy/list_configs": {
+      const matched = [...store.values()].filter((p) => p.name.includes(keyword)).map(to_record);
+      return ok({ total: matched.length, proxy_configs: page_of(matched, json) });
+    }
+    case "v1/proxy/get_config": {
+      const p = store.get(key_of(String(json.clientId), String(json.serverId), String(json.name)));
+      if (!p) return status(2, "proxy not found");
+      return ok({
+        proxy_config: to_record(p),
+        working_status: {
+          name: p.name,
+          type: p.type,
+          status: "running",
+          remote_addr: p.remote_port ? `0.0.0.0:${p.remote_port}` : "",
+        },
+      });
+    }
+    default:
+      return { code: 404, msg: `unknown endpoint ${endpoint}` };
+  }
+}
+
+function read_body(req: IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+    });
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+async function serve(req: IncomingMessage, res: ServerResponse) {
+  const body = await read_body(req);
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  if (path === "/hook") {
+    events.push(JSON.parse(body) as WebhookEvent);
+    res.writeHead(200).end();
+    return;
+  }
+  // /{master}/api/v1/...
+  const [, master, , ...rest] = path.split("/");
+  const reply = handle(master ?? "", rest.join("/"), body ? (JSON.parse(body) as Json) : {});
+  res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(reply));
+}
+
+let started: Promise<void> | null = null;
+
+/**
+ * Listen once for all the test files, the server does not keep the test process alive.
+ */
+export function start_panel() {
+  started ??= new Promise((resolve, reject) => {
+    const server = createServer((req, res) => {
+      serve(req, res).catch((e) => res.writeHead(500).end(String(e)));
+    });
+    server.once("error", reject);
+    server.listen(PANEL_PORT, "127.0.0.1", () => resolve());
+    server.unref();
+  });
+  return started;
+}
+
+export const panel = {
+  /**
+   * Proxies of the master, by name.
+   */
+  proxies(master = CONFIG.master[0]!.name) {
+    return new Map([...proxies_of(master).values()].map((p) => [p.name, p]));
+  },
+  /**
+   * Answer the calls to the endpoint matching `when` with an error, until `heal`.
+   */
+  fail(endpoint: string, when: FailWhen = () => true, message = "injected failure") {
+    const list = failures.get(endpoint) ?? [];
+    list.push({ message, when });
+    failures.set(endpoint, list);
+  },
+  heal() {
+    failures.clear();
+  },
+  /**
+   * Webhook events delivered so far for the traffic, in order.
+   */
+  events(traffic_id: string) {
+    return events.filter((e) => e.traffic_id === traffic_id).map((e) => e.type);
+  },
+  /**
+   * Wait for the webhook worker to deliver the queued events.
+   */
+  async settle(ms = 300) {
+    await sleep(ms);
+  },
+};
@@ -0,0 +1,164 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { Cache } from "@/cache";
+import CONFIG from "@/config";
+import { node, service } from "@/test/app";
+import { panel, start_panel } from "@/test/panel";
+import { cleanup_dead_traffic, delete_traffic, get_traffic, list_traffic, update_traffic } from "@/traffic";
+
+const cache = new Cache(CONFIG.cache);
+
+beforeAll(start_panel);
+
+describe("delete traffic", () => {
+  test("nothing is left for the sweep to expire", async () => {
+    const node_name = node();
+    const svc = service();
+    await update_traffic(node_name, svc);
+    expect((await list_traffic({ node_name })).total).toBe(1);
+
+    await delete_traffic(svc.traffic);
+    expect(await get_traffic(svc.traffic)).toBeNull();
+    expect((await list_traffic({ node_name })).total).toBe(0);
+
+    await cleanup_dead_traffic();
+    await panel.settle();
+    expect(panel.events(svc.traffic)).toEqual(["traffic.created", "traffic.deleted"]);
+  });
+});
+
+describe("update traffic", () => {
+  test("extend keeps the proxies and pushes the expiry", async () => {
+    const node_name = node();
+    const svc = service();
+    const created = await update_traffic(node_name, svc);
+    const ttl = (await get_traffic(svc.traffic))!.ttl;
+
+    const extended = await update_traffic(node_name, { ...svc, lifetime: svc.lifetime + 3600 });
+    expect(extended).toEqual(created);
+    expect((await get_traffic(svc.traffic))!.ttl).toBeGreaterThan(ttl + 3000);
+    await panel.settle();
+    expect(panel.events(svc.traffic)).toEqual(["traffic.created", "traffic.extended"]);
+  });
+
+  test("patch adds and removes ports and keeps the unchanged ones", async () => {
+    const node_name = node();
+    const svc = service(2);
+    const created = await update_traffic(node_name, svc);
+
+    // p1 is removed
+    const kept = svc.ports[0]!;
+    const added = { ...kept, name: "added", node_port: 9000 };
+    const patched = await update_traffic(node_name, { ...svc, ports: [kept, added] });
+    expect(patched["p0:8000/tcp"]).toBe(created["p0:8000/tcp"]!);
+    expect(Object.keys(patched).sort()).toEqual(["added:9000/tcp", "p0:8000/tcp"]);
+
+    const names = [...panel.proxies().keys()].filter((name) => name.includes(svc.traffic)).sort();
+    expect(names).toEqual([`ret2shell:${svc.traffic}:added:9000/tcp`, `ret2shell:${svc.traffic}:p0:8000/tcp`]);
+    await panel.settle();
+    expect(panel.events(svc.traffic)).toEqual(["traffic.created", "traffic.updated"]);
+  });
+
+  test("a failed patch keeps the old ports", async () => {
+    const node_name = node();
+    const svc = service();
+    const created = await update_traffic(node_name, svc);
+
+    panel.fail("v1/proxy/create_config");
+    const added = { ...svc.ports[0]!, name: "added", node_port: 9000 };
+    await expect(update_traffic(node_name, { ...svc, ports: [...svc.ports, added] })).rejects.toThrow();
+    panel.heal();
+
+    expect((await get_traffic(svc.traffic))!.addr?.remote_addr).toEqual(created);
+    expect([...panel.proxies().keys()].filter((name) => name.includes(svc.traffic))).toHaveLength(1);
+  });
+});
+
+describe("traffic per node", () => {
+  const quota = { max_traffic_per_node: 1 };
+
+  test("counted until deleted, expired or failed", async () => {
+    const node_name = node();
+    const [first, second] = [service(), service()];
+    await update_traffic(node_name, first, { quota });
+    await expect(update_traffic(node_name, second, { quota })).rejects.toMatchObject({ reason: "traffic_per_node" });
+
+    await delete_traffic(first.traffic);
+    await update_traffic(node_name, second, { quota });
+
+    // the failed one is no longer counted
+    await cache.at("traffic").at(second.traffic).at("conf").del();
+    await cleanup_dead_traffic();
+    panel.fail("v1/proxy/create_config");
+    try {
+      await expect(update_traffic(node_name, service(), { quota })).rejects.toThrow();
+    } finally {
+      panel.heal();
+    }
+    await update_traffic(node_name, service(), { quota });
+  });
+
+  test("traffic created in parallel never overshoots the limit", async () => {
+    const node_name = node();
+    const results = await Promise.allSettled(
+      [service(), service(), service()].map((svc) =>
+        update_traffic(node_name, svc, { quota: { max_traffic_per_node: 2 } })
+      )
+    );
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(2);
+    expect((await list_traffic({ node_name })).total).toBe(2);
+  });
+});
+
+describe("multiple masters", () => {
+  test("tear down on the master recorded even if the server is removed", async () => {
+    const svc = service();
+    await update_traffic(node(), svc, { servers: ["remote"] });
+    const names = () => [...panel.proxies("other").keys()].filter((name) => name.includes(svc.traffic));
+    expect(names()).toHaveLength(1);
+
+    // as if removed by reloading the config
+    const servers = CONFIG.server;
+    CONFIG.server = servers.filter((sc) => sc.node_name !== "remote");
+    try {
+      await delete_traffic(svc.traffic);
+    } finally {
+      CONFIG.server = servers;
+    }
+    expect(names()).toHaveLength(0);
+  });
+
+  test("fail with panel_error rather than no_server if every panel is down", async () => {
+    panel.fail("v1/server/list");
+    try {
+      await expect(update_traffic(node(), service())).rejects.toMatchObject({ code: "panel_error" });
+    } finally {
+      panel.heal();
+    }
+  });
+});
+
+describe("sweep", () => {
+  const expire = (traffic_id: string) => cache.at("traffic").at(traffic_id).at("conf").del();
+
+  test("a traffic failing to tear down does not hold up the others", async () => {
+    const [stuck, dead] = [service(), service()];
+    await update_traffic(node(), stuck);
+    await update_traffic(node(), dead);
+    await Promise.all([expire(stuck.traffic), expire(dead.traffic)]);
+
+    panel.fail("v1/proxy/delete_config", (json) => String(json.name).includes(stuck.traffic));
+    try {
+      await cleanup_dead_traffic();
+    } finally {
+      panel.heal();
+    }
+    expect(await get_traffic(dead.traffic)).toBeNull();
+    expect(await get_traffic(stuck.traffic)).not.toBeNull();
+
+    // retried on the next sweep
+    await cleanup_dead_traffic();
+    expect(await get_traffic(stuck.traffic)).toBeNull();
+    await panel.settle();
+    expect(panel.events(stuck.traffic)).toEqual(["traffic.created", "traffic.expired"]);
+  });
+});
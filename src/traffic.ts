@@ -1,35 +1,92 @@
-import { Mutex } from "async-mutex";
 import { HTTPException } from "hono/http-exception";
 import { customAlphabet } from "nanoid";
 import z from "zod";
 import type { CreateConfigParam } from "@/api";
 import * as api from "@/api";
+import { audit } from "@/audit";
 import { Cache } from "@/cache";
-import CONFIG from "@/config";
-import { normalize_service, sleep, to_camel } from "./utils";
+import CONFIG, { type QuotaConfig, type ServerConfig, schemaTransport, type TransportConfig } from "@/config";
+import { list_cordoned } from "@/cordon";
+import { claim_domains, domain_key, list_domains, release_domains } from "@/domains";
+import { elect_leader, type Lock, migrate_legacy_fences, try_with_lock, with_lock } from "@/lock";
+import * as metrics from "@/metrics";
+import {
+  claim_ports,
+  count_reserved_ports,
+  get_reserved_ports,
+  list_port_servers,
+  migrate_legacy_ports,
+  release_ports,
+} from "@/ports";
+import { failure_of, ProvisionError, type ProvisionFailure, panel_step, Rollback } from "@/provision";
+import {
+  check_service_quota,
+  list_node_traffic,
+  QuotaError,
+  release_node_traffic,
+  reserve_node_traffic,
+  resolve_quota,
+} from "@/quota";
+import { define_script } from "@/storage";
+import { type Candidate, get_strategy } from "@/strategy";
+import { emit } from "@/webhook";
+import {
+  client_id_of,
+  master_of,
+  node_name_of,
+  normalize_service,
+  server_config_of,
+  server_id_of,
+  sleep,
+  to_camel,
+  to_snake,
+} from "./utils";
 
 const nanoid = customAlphabet("abcdefghijklmnopqrstuvwxyz0123456789", 21);
 
-const cache = new Cache(CONFIG.cache.url);
+const cache = new Cache(CONFIG.cache);
 
 // * no expire, cleanup and close frp proxy if traffic deleted
-// working:{traffic_id} -> { client_id, server_id, name }[]
+// working:{traffic_id} -> { client_id, server_id, name, master }[]
 // * no expire, cleanup if working deleted
-// port:{server_id}:{port} -> traffic_id
+// port:{server_id}:used -> { [port]: traffic_id }, see `ports.ts`
 // * traffic will auto expire after lifetime
 // traffic:{traffic_id}:conf -> { client_id, server_id, config }
+// * expire a while after conf, so that cleanup can still report the addresses
 // traffic:{traffic_id}:addr -> { remote_ports: number[], remote_addr: string[] }
+// * expire after `provision.state_ttl`, removed once provisioned
+// traffic:{traffic_id}:state -> Cached.ProvisionState, pending or failed
 
-interface ProxyConfigDetail {
+export interface ProxyConfigDetail {
   name: string;
   type: string;
   local_port: number;
   local_ip: string;
   subdomain?: string;
+  /**
+   * http / https only, instead of subdomain
+   */
+  custom_domains?: string[];
+  http_user?: string;
+  http_password?: string;
+  host_header_rewrite?: string;
+  locations?: string[];
+  request_headers?: { set: Record<string, string> };
+  response_headers?: { set: Record<string, string> };
+  route_by_http_user?: string;
+  transport?: TransportConfig;
   remote_port?: number;
+  /**
+   * stcp / xtcp only
+   */
+  secret_key?: string;
+  /**
+   * stcp / xtcp only
+   */
+  allow_users?: string[];
 }
 
-namespace Cached {
+export namespace Cached {
   export interface TrafficConfig {
     client_id: string;
     server_id: string;
@@ -41,6 +98,22 @@ namespace Cached {
     remote_ports: number[];
     remote_addr: Record<string, string>; // name:port/service_type -> remote_addr
   }
+  export interface ProvisionState {
+    state: "pending" | "failed";
+    node_name: string;
+    /**
+     * the async request which recorded the state, only that request settles it
+     */
+    request_id?: string;
+    /**
+     * seconds
+     */
+    updated_at: number;
+    /**
+     * for failed, the body replied by the synchronous request
+     */
+    error?: ProvisionFailure;
+  }
 }
 
 declare global {
@@ -58,23 +131,63 @@ String.prototype.parseJSON = function <T>(this: string) {
   }
 };
 
-const mutex_port = new Mutex();
-const mutex_cache_w = new Mutex();
-
 function delta_now(seconds: number) {
   return seconds - Math.floor(Date.now() / 1000);
 }
 
-function gen_http_config(name: string, subdomain: string, local_port: number, local_ip = "127.0.0.1") {
+function addr_expire_grace() {
+  return CONFIG.app.cleanup_interval * 2;
+}
+
+/**
+ * Header maps keep their keys when converting the proxy config case.
+ */
+export const HEADER_MAPS = ["set"] as const;
+
+type HttpOptions = Pick<
+  ProxyConfigDetail,
+  | "http_user"
+  | "http_password"
+  | "host_header_rewrite"
+  | "locations"
+  | "request_headers"
+  | "response_headers"
+  | "route_by_http_user"
+>;
+
+function gen_http_config(
+  name: string,
+  type: "http" | "https",
+  domain: { subdomain: string } | { custom_domains: string[] },
+  local_port: number,
+  options: HttpOptions = {},
+  local_ip = "127.0.0.1"
+) {
   return {
     name,
-    type: "http",
+    type,
     local_port,
     local_ip,
-    subdomain,
+    ...domain,
+    ...options,
   };
 }
 
+/**
+ * Pick the http options set on the port, header overrides are wrapped the way frp expects.
+ */
+function http_options_of(port: Service["ports"][number]): HttpOptions {
+  const options: HttpOptions = {};
+  if (port.http_user !== undefined) options.http_user = port.http_user;
+  if (port.http_password !== undefined) options.http_password = port.http_password;
+  if (port.host_header_rewrite !== undefined) options.host_header_rewrite = port.host_header_rewrite;
+  if (port.locations?.length) options.locations = port.locations;
+  if (port.request_headers) options.request_headers = { set: port.request_headers };
+  if (port.response_headers) options.response_headers = { set: port.response_headers };
+  if (port.route_by_http_user !== undefined) options.route_by_http_user = port.route_by_http_user;
+  return options;
+}
+
 function gen_tcp_config(name: string, remote_port: number, local_port: number, local_ip = "127.0.0.1") {
   return {
     name,
@@ -95,73 +208,133 @@ function gen_udp_config(name: string, remote_port: number, local_port: number, l
   };
 }
 
-async function get_occupied_ports(server_id: string) {
-  const keys = await cache.at("port").at(server_id).at("*").keys();
-  return keys.map((key) => {
-    const parts = key.split(":");
-    return parseInt(parts[parts.length - 1]!, 10);
-  });
+function gen_secret_config(
+  name: string,
+  type: "stcp" | "xtcp",
+  secret_key: string,
+  allow_users: string[],
+  local_port: number,
+  local_ip = "127.0.0.1"
+) {
+  return {
+    name,
+    type,
+    secret_key,
+    allow_users,
+    local_port,
+    local_ip,
+  };
 }
 
-async function get_available_ports(server_id: string, port_range: [number, number], count = 1) {
-  const occupied_ports = await get_occupied_ports(server_id);
-  const rand_port = Math.floor(Math.random() * (port_range[1] - port_range[0] + 1)) + port_range[0];
-  const result: number[] = [];
-  if (!occupied_ports.includes(rand_port)) {
-    result.push(rand_port);
-  }
+function is_http(type: string) {
+  return type === "http" || type === "https";
+}
 
-  if (result.length >= count) return result;
+/**
+ * @returns The domains claimed by the http / https proxies on the server.
+ */
+function domains_of(proxies: ProxyConfigDetail[], server_id: string) {
+  const server = server_config_of(server_id) ?? {};
+  return proxies.flatMap((p) => (is_http(p.type) ? (domain_key(p, server, server_id) ?? []) : []));
+}
 
-  // up find
-  let try_port = rand_port + 1;
-  while (try_port <= port_range[1]) {
-    if (!occupied_ports.includes(try_port)) {
-      result.push(try_port);
-      if (result.length >= count) return result;
-    }
-    try_port++;
-  }
-  // down find
-  try_port = rand_port - 1;
-  while (try_port >= port_range[0]) {
-    if (!occupied_ports.includes(try_port)) {
-      result.push(try_port);
-      if (result.length >= count) return result;
-    }
-    try_port--;
-  }
-  throw new Error("No available port found in the specified range");
+/**
+ * Whether the proxy type needs a remote port on the frp server.
+ */
+function need_remote_port(type: string) {
+  return type === "tcp" || type === "udp";
 }
 
 async function gen_config_proxies(
-  ctx: { node_name: string; traffic_id: string; server_id: string; port_range: [number, number] },
+  ctx: {
+    node_name: string;
+    traffic_id: string;
+    server_id: string;
+    server_config: ServerConfig;
+    secret_key: string;
+    transport?: TransportConfig;
+    /**
+     * `max_ports_per_server` of the quota
+     */
+    max_ports?: number;
+  },
   name_prefix: string,
   ports: NormalizedService["ports"]
 ): Promise<ProxyConfigDetail[]> {
   const result: ProxyConfigDetail[] = [];
-  const need_ports = ports.filter((p) => p.service_type !== "http");
+  // claim domains first, so that a collision does not hold any port
+  const http_proxies = new Map<string, ProxyConfigDetail>();
+  for (const port_info of ports) {
+    if (port_info.service_type !== "http" && port_info.service_type !== "https") continue;
+    const name = `${name_prefix}:${port_info.name}:${port_info.node_port}/${port_info.service_type}`;
+    if (port_info.custom_domain) {
+      const domain = { custom_domains: [port_info.custom_domain.toLowerCase()] };
+      http_proxies.set(
+        name,
+        gen_http_config(name, port_info.service_type, domain, port_info.node_port, http_options_of(port_info))
+      );
+    } else {
+      const prefix = ctx.node_name.replace(/[^a-zA-Z0-9]+/g, "-").toLowerCase();
+      const subdomain = port_info.subdomain?.toLowerCase() ?? `${prefix}-${nanoid()}`;
+      http_proxies.set(
+        name,
+        gen_http_config(name, port_info.service_type, { subdomain }, port_info.node_port, http_options_of(port_info))
+      );
+    }
+  }
+  const domains = [...http_proxies.values()].flatMap((p) => domain_key(p, ctx.server_config, ctx.server_id) ?? []);
+  const conflict = await claim_domains(ctx.traffic_id, domains);
+  if (conflict) throw new HTTPException(409, { message: `domain already in use: ${conflict}` });
+
+  const need_ports = ports.filter((p) => need_remote_port(p.service_type));
   let remote_ports: number[] = [];
   if (need_ports.length) {
-    remote_ports = await get_available_ports(ctx.server_id, ctx.port_range, need_ports.length);
+    remote_ports = await claim_ports(
+      ctx.server_id,
+      ctx.server_config.port_range,
+      ctx.traffic_id,
+      need_ports.length,
+      ctx.max_ports
+    ).catch(async (e) => {
+      await release_domains(ctx.traffic_id, domains);
+      if (e instanceof QuotaError) throw e;
+      throw new ProvisionError("port_exhausted", e instanceof Error ? e.message : String(e), { cause: e });
+    });
   }
   for (const port_info of ports) {
     const name = `${name_prefix}:${port_info.name}:${port_info.node_port}/${port_info.service_type}`;
-    if (port_info.service_type === "http") {
-      const prefix = ctx.node_name.replace(/[^a-zA-Z0-9]+/g, "-").toLowerCase();
-      const subdomain = `${prefix}-${nanoid()}`;
-      result.push(gen_http_config(name, subdomain, port_info.node_port));
+    if (http_proxies.has(name)) {
+      result.push(http_proxies.get(name)!);
     } else if (port_info.service_type === "tcp") {
       const remote_port = remote_ports.shift()!;
       result.push(gen_tcp_config(name, remote_port, port_info.node_port));
     } else if (port_info.service_type === "udp") {
       const remote_port = remote_ports.shift()!;
       result.push(gen_udp_config(name, remote_port, port_info.node_port));
+    } else if (port_info.service_type === "stcp" || port_info.service_type === "xtcp") {
+      const allow_users = port_info.allow_users ?? ["*"];
+      result.push(gen_secret_config(name, port_info.service_type, ctx.secret_key, allow_users, port_info.node_port));
     }
   }
+  const transport = merge_transport(ctx.server_config.transport, ctx.transport);
+  if (transport) for (const proxy of result) proxy.transport = transport;
   return result;
 }
 
+/**
+ * Service options override the server defaults one by one.
+ * @returns undefined if nothing is set
+ */
+function merge_transport(...layers: (TransportConfig | undefined)[]) {
+  const merged: TransportConfig = {};
+  for (const layer of layers) {
+    for (const [k, v] of Object.entries(layer ?? {})) {
+      if (v !== undefined) Object.assign(merged, { [k]: v });
+    }
+  }
+  return Object.keys(merged).length ? merged : undefined;
+}
+
 export interface Service {
   traffic: string;
   /**
@@ -172,331 +345,1624 @@ export interface Service {
    * seconds
    */
   lifetime: number;
+  /**
+   * override the transport options of the server
+   */
+  transport?: TransportConfig;
   ports: {
     name: string;
     node_port: number;
-    service_type?: "http" | "tcp" | "udp";
-    protocol: "TCP" | "UDP" | "STCP";
-    app_protocol: "raw" | "http";
+    service_type?: ServiceType;
+    protocol: "TCP" | "UDP" | "STCP" | "XTCP";
+    app_protocol: "raw" | "http" | "https";
+    /**
+     * http / https only, serve on the domain instead of a subdomain
+     */
+    custom_domain?: string;
+    /**
+     * http / https only, vanity subdomain instead of a random one
+     */
+    subdomain?: string;
+    /**
+     * http only, basic auth in front of the proxy
+     */
+    http_user?: string;
+    http_password?: string;
+    /**
+     * http only, Host header seen by the upstream
+     */
+    host_header_rewrite?: string;
+    /**
+     * http only, url path prefixes routed to the proxy
+     */
+    locations?: string[];
+    /**
+     * http only, header name -> value, set on the request / response
+     */
+    request_headers?: Record<string, string>;
+    response_headers?: Record<string, string>;
+    /**
+     * http only, route by the basic auth user, to share a domain between proxies
+     */
+    route_by_http_user?: string;
+    /**
+     * frp users allowed to visit a STCP / XTCP port, all if undefined
+     */
+    allow_users?: string[];
   }[];
 }
 
+export type ServiceType = "http" | "https" | "tcp" | "udp" | "stcp" | "xtcp";
+
 export interface NormalizedService extends Omit<Service, "ports"> {
-  ports: (Service["ports"][number] & { service_type: "http" | "tcp" | "udp" })[];
+  ports: (Service["ports"][number] & { service_type: ServiceType })[];
 }
 
+// frps ignores them on https proxies, which pass the TLS stream through untouched
+const HTTP_ONLY_OPTIONS = [
+  "http_user",
+  "http_password",
+  "host_header_rewrite",
+  "locations",
+  "request_headers",
+  "response_headers",
+  "route_by_http_user",
+] as const;
+
 export const schemaService = z.object({
   traffic: z.string(),
   created_at: z.number(),
   lifetime: z.number(),
-  ports: z.array(
-    z.object({
-      name: z.string(),
-      node_port: z.number(),
-      service_type: z.enum(["http", "tcp", "udp"]).optional(),
-      protocol: z.enum(["TCP", "UDP", "STCP"]),
-      app_protocol: z.enum(["raw", "http"]),
-    })
-  ),
+  transport: schemaTransport.optional(),
+  // a traffic without ports has nothing to proxy
+  ports: z
+    .array(
+      z
+        .object({
+          name: z.string(),
+          node_port: z.number(),
+          service_type: z.enum(["http", "https", "tcp", "udp", "stcp", "xtcp"]).optional(),
+          protocol: z.enum(["TCP", "UDP", "STCP", "XTCP"]),
+          app_protocol: z.enum(["raw", "http", "https"]),
+          custom_domain: z
+            .string()
+            .regex(/^(?=.{1,253}$)([a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,63}$/, "invalid domain")
+            .optional(),
+          subdomain: z
+            .string()
+            .regex(/^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/, "invalid subdomain")
+            .optional(),
+          http_user: z.string().min(1).optional(),
+          http_password: z.string().min(1).optional(),
+          host_header_rewrite: z.string().min(1).optional(),
+          locations: z.array(z.string().startsWith("/")).optional(),
+          request_headers: z.record(z.string().min(1), z.string()).optional(),
+          response_headers: z.record(z.string().min(1), z.string()).optional(),
+          route_by_http_user: z.string().min(1).optional(),
+          allow_users: z.array(z.string().min(1)).optional(),
+        })
+        .superRefine((port, ctx) => {
+          // served as http the way `normalize_service` decides
+          if (port.app_protocol === "http" && port.protocol !== "STCP" && port.protocol !== "XTCP") return;
+          for (const key of HTTP_ONLY_OPTIONS) {
+            if (port[key] !== undefined) ctx.addIssue({ code: "custom", path: [key], message: "only for http ports" });
+          }
+        })
+    )
+    .min(1),
 });
 
-async function update_traffic_unsafe(node_name: string, service: Service) {
-  const svc = normalize_service(service);
+/**
+ * Wait until all the proxies are running.
+ * @returns The proxy details, or null if not ready after retries.
+ */
+async function wait_ready(
+  proxy_keys: api.ProxyConfigUniqueKey[],
+  retry = CONFIG.provision.wait_ready_retry,
+  interval = CONFIG.provision.wait_ready_interval
+) {
+  for (let i = 0; i < retry; i++) {
+    // get remote address
+    const details = await Promise.all(
+      proxy_keys.map((proxy) =>
+        api
+          .get_proxy_config({
+            client_id: proxy.client_id,
+            server_id: proxy.server_id,
+            name: proxy.name,
+          })
+          .then((res) => res.body)
+      )
+    );
+    const is_all_status_running = details.every((detail) => detail.working_status.status === "running");
+    if (!is_all_status_running) {
+      await sleep(interval);
+    } else {
+      return details;
+    }
+  }
+  return null;
+}
 
-  const SERVER_ID_PREFIX = `${CONFIG.master.username}.s`;
-  const CLIENT_ID = `${CONFIG.master.username}.c.${node_name}`;
-  const NAME_PREFIX = `ret2shell:${svc.traffic}`;
+/**
+ * @returns Fully qualified url of the http / https proxy.
+ */
+function http_url(status: api.WorkingStatus, server_config: ServerConfig, proxy?: ProxyConfigDetail) {
+  const scheme = status.type === "https" ? "https" : "http";
+  const vhost_port = scheme === "https" ? server_config.vhost_https_port : server_config.vhost_http_port;
+  const port = vhost_port === (scheme === "https" ? 443 : 80) ? "" : `:${vhost_port}`;
+  let host: string | undefined;
+  if (proxy?.custom_domains?.length) host = proxy.custom_domains[0];
+  else if (proxy?.subdomain && server_config.subdomain_host)
+    host = `${proxy.subdomain}.${server_config.subdomain_host}`;
+  if (host) return `${scheme}://${host}${port}`;
+  // fallback to what frp-panel reports
+  return /^https?:\/\//.test(status.remote_addr) ? status.remote_addr : `${scheme}://${status.remote_addr}`;
+}
+
+/**
+ * @returns name:port/service_type -> remote_addr
+ */
+function build_remote_addr(
+  details: { working_status: api.WorkingStatus }[],
+  server_config: ServerConfig,
+  proxies: ProxyConfigDetail[]
+) {
+  const remote_addr = new Map<string, string>();
+  for (const detail of details) {
+    const port_key = detail.working_status.name.split(":").slice(-2).join(":");
+    if (is_http(detail.working_status.type)) {
+      const proxy = proxies.find((p) => p.name === detail.working_status.name);
+      remote_addr.set(port_key, http_url(detail.working_status, server_config, proxy));
+    } else if (detail.working_status.type === "stcp" || detail.working_status.type === "xtcp") {
+      // no public port, visited through the frp server with the visitor config
+      remote_addr.set(
+        port_key,
+        `${detail.working_status.type}://${server_config.remote_addr}:${server_config.bind_port}`
+      );
+    } else {
+      remote_addr.set(port_key, `${server_config.remote_addr}:${detail.working_status.remote_addr.split(":").pop()}`);
+    }
+  }
+  return Object.fromEntries(remote_addr.entries());
+}
+
+/**
+ * Read the cached conf, proxies cached by older versions are in camel case.
+ */
+async function read_conf(traffic_id: string) {
+  const conf = (await cache.at("traffic").at(traffic_id).at("conf").get())?.parseJSON<Cached.TrafficConfig>() ?? null;
+  if (conf) conf.config.proxies = to_snake(conf.config.proxies, HEADER_MAPS);
+  return conf;
+}
+
+/**
+ * List the frp servers which can take new traffic.
+ * @param servers `[[server]].node_name` allowed, all if undefined
+ * @param exclude server id to exclude
+ * @throws ProvisionError `panel_error` if none is left and some master failed to list its servers
+ */
+async function list_candidates(servers?: string[], exclude?: string): Promise<Candidate[]> {
+  const cordoned = await list_cordoned();
+  // a master being down only takes its own servers out
+  const failed: string[] = [];
+  const panel_servers = await Promise.all(
+    CONFIG.master.map((m) =>
+      api.list_all_servers(`${m.username}.s`, m.name).catch((e) => {
+        console.error(`Failed to list servers of master ${m.name}:`, e instanceof Error ? e.message : e);
+        failed.push(m.name);
+        return [];
+      })
+    )
+  );
+  const candidates = panel_servers.flat().flatMap((s) => {
+    // should in the config
+    const sc = server_config_of(s.id);
+    if (!sc || s.id === exclude) return [];
+    // not cordoned, and allowed for the caller
+    if (cordoned.has(sc.node_name)) return [];
+    if (servers && !servers.includes(sc.node_name)) return [];
+    return [{ id: s.id, config: sc }];
+  });
+  // the servers of the masters down might have taken it, so it is not for lack of servers
+  if (!candidates.length && failed.length) {
+    throw new ProvisionError("panel_error", `failed to list servers of master ${failed.join(",")}`);
+  }
+  return candidates;
+}
+
+export interface UpdateOptions {
+  /**
+   * caller identity for logs
+   */
+  caller?: string;
+  /**
+   * `[[server]].node_name` allowed for new traffic, all if undefined
+   */
+  servers?: string[];
+  /**
+   * override the global quota, see `resolve_quota`
+   */
+  quota?: QuotaConfig;
+  /**
+   * checked under the traffic lock against the owner of existing traffic
+   */
+  authorize?: (owner: TrafficOwner) => boolean;
+  /**
+   * async request whose pending state is settled under the traffic lock, see `provision_traffic`
+   */
+  request_id?: string;
+}
+
+/**
+ * Checks which need no traffic lock, run again under the lock by `update_traffic`.
+ * Existing traffic is touched only by the tokens allowed on its owner node, whatever node the request names.
+ */
+async function check_update(svc: NormalizedService, opts: UpdateOptions) {
+  check_service_quota(resolve_quota(opts.quota), svc);
+  const owner = await get_traffic_owner(svc.traffic);
+  // traffic being provisioned belongs to the node which asked first
+  const state = (await cache.at("traffic").at(svc.traffic).at("state").get())?.parseJSON<Cached.ProvisionState>();
+  const node = owner.node_name ?? state?.node_name ?? null;
+  if (node === null) return;
+  if (opts.authorize && !opts.authorize({ ...owner, node_name: node })) {
+    throw new HTTPException(403, { message: "forbidden" });
+  }
+}
+
+/**
+ * Whether the request is turned away by `check_update`, which tells nothing about the traffic itself.
+ */
+function is_rejected(e: unknown) {
+  return e instanceof HTTPException && e.status === 403;
+}
+
+async function update_traffic_unsafe(node_name: string, service: Service, opts: UpdateOptions = {}, lock?: Lock) {
+  const svc = normalize_service(service);
 
   const cache_key_conf = cache.at("traffic").at(svc.traffic).at("conf");
   const cache_key_addr = cache.at("traffic").at(svc.traffic).at("addr");
-  const cached_conf = (await cache_key_conf.get())?.parseJSON<Cached.TrafficConfig>() ?? null;
+  const cached_conf = await read_conf(svc.traffic);
   const cached_addr = (await cache_key_addr.get())?.parseJSON<Cached.TrafficAddr>() ?? null;
 
+  await check_update(svc, opts);
+
   const SVC_EXPIRE_AT = svc.created_at + svc.lifetime;
+  const quota = resolve_quota(opts.quota);
 
   if (cached_conf && cached_addr) {
+    // ports changed, patch the proxies
+    const patched = await patch_traffic_unsafe(node_name, svc, cached_conf, cached_addr, opts, lock);
+    if (patched) return patched;
+
     // update expire time
     const delta = delta_now(SVC_EXPIRE_AT);
     console.info(
-      `Updating expire time for traffic: ${[`traffic_id=${svc.traffic}`, `client_id=${cached_conf.client_id}`, `server_id=${cached_conf.server_id}`, `expire_at=${new Date(SVC_EXPIRE_AT * 1000).toISOString()}`].join(", ")}`
+      `Updating expire time for traffic: ${[`traffic_id=${svc.traffic}`, `client_id=${cached_conf.client_id}`, `server_id=${cached_conf.server_id}`, `expire_at=${new Date(SVC_EXPIRE_AT * 1000).toISOString()}`, `caller=${opts.caller ?? "-"}`].join(", ")}`
     );
-    await Promise.all([cache_key_conf.expire(delta), cache_key_addr.expire(delta)]);
+    await Promise.all([cache_key_conf.expire(delta), cache_key_addr.expire(delta + addr_expire_grace())]);
+    metrics.traffic_extended.inc();
+    emit({
+      type: "traffic.extended",
+      traffic_id: svc.traffic,
+      node_name,
+      server_id: cached_conf.server_id,
+      remote_addr: cached_addr.remote_addr,
+      expire_at: SVC_EXPIRE_AT,
+    });
+    audit({
+      action: "extend",
+      caller: opts.caller ?? "-",
+      traffic_id: svc.traffic,
+      // the owner, not whatever node the request names
+      node_name: node_name_of(cached_conf.client_id),
+      server_id: cached_conf.server_id,
+      ports: cached_addr.remote_addr,
+      outcome: "success",
+      detail: `expire_at=${SVC_EXPIRE_AT}`,
+    });
 
     return cached_addr.remote_addr;
   } else {
     // create new
 
-    const servers = (await api.list_all_servers(SERVER_ID_PREFIX)).filter((s) =>
-      // should in the config
-      CONFIG.server.some((sc) => `${SERVER_ID_PREFIX}.${sc.node_name}` === s.id)
-    );
-    if (!servers.length) throw new Error("No available frp server found");
-    const picked_server_id = servers[Math.floor(Math.random() * servers.length)]!.id;
-    const server_config = CONFIG.server.find((sc) => `${SERVER_ID_PREFIX}.${sc.node_name}` === picked_server_id)!;
-    const ctx = {
-      node_name,
-      traffic_id: svc.traffic,
-      server_id: picked_server_id,
-      port_range: server_config.port_range,
-    };
-    // create proxy config, occupy ports
-    const [config, occupied_ports] = await mutex_port.runExclusive(async () => {
-      const proxies = await gen_config_proxies(ctx, NAME_PREFIX, svc.ports);
+    // counted before any panel call, so that new traffic of the same node provisioned in parallel cannot overshoot the limit
+    await reserve_node_traffic(node_name, svc.traffic, quota.max_traffic_per_node);
+    try {
+      return await create_traffic_unsafe(node_name, svc, opts, quota, lock);
+    } catch (e) {
+      // rolled back, left to `cleanup_node_traffic` if working is still recorded
+      await release_node_traffic(node_name, svc.traffic).catch((e) =>
+        console.error(`Error releasing node traffic ${svc.traffic}:`, e)
+      );
+      throw e;
+    }
+  }
+}
 
-      const create_params: CreateConfigParam<Cached.TrafficConfig["config"]> = {
-        client_id: CLIENT_ID,
-        server_id: picked_server_id,
-        config: to_camel({ proxies }),
-        // if already exists cached_conf, do not overwrite it
-        overwrite: false,
-      };
+/**
+ * Create the proxies of a new traffic, already counted toward the node.
+ */
+async function create_traffic_unsafe(
+  node_name: string,
+  svc: NormalizedService,
+  opts: UpdateOptions,
+  quota: QuotaConfig,
+  lock?: Lock
+) {
+  const NAME_PREFIX = `ret2shell:${svc.traffic}`;
+  const cache_key_conf = cache.at("traffic").at(svc.traffic).at("conf");
+  const cache_key_addr = cache.at("traffic").at(svc.traffic).at("addr");
+  const SVC_EXPIRE_AT = svc.created_at + svc.lifetime;
 
-      // create config
-      console.log(
-        `Updating proxy config: ${[
-          `client_id=${create_params.client_id}`,
-          `server_id=${create_params.server_id}`,
-          `ports=${service.ports.map((p) => `${p.node_port}/${p.service_type}`).join(",")}`,
-        ].join(", ")}`
+  let candidates = await list_candidates(opts.servers);
+  if (!candidates.length) throw new ProvisionError("no_server", "no available frp server found");
+  const need_ports = svc.ports.filter((p) => need_remote_port(p.service_type)).length;
+  if (quota.max_ports_per_server !== undefined && need_ports) {
+    const limit = quota.max_ports_per_server;
+    const used = await Promise.all(candidates.map(async (c) => ({ c, used: await count_reserved_ports(c.id) })));
+    const fit = used.filter((u) => u.used + need_ports <= limit).map((u) => u.c);
+    if (!fit.length) {
+      throw new QuotaError(
+        "ports_per_server",
+        limit,
+        Math.min(...used.map((u) => u.used)),
+        `no frp server has ${need_ports} ports left under the limit ${limit}`
       );
-      for (const proxy of proxies) {
-        const create_params_one: CreateConfigParam<Cached.TrafficConfig["config"]> = {
-          client_id: CLIENT_ID,
-          server_id: picked_server_id,
-          config: to_camel({ proxies: [proxy] }),
-          overwrite: false,
-        };
-        await api.create_proxy_config(create_params_one).catch(void 0);
-      }
+    }
+    candidates = fit;
+  }
+  const picked = await get_strategy().select(candidates, { node_name, traffic_id: svc.traffic });
+  const picked_server_id = picked.id;
+  const server_config = picked.config;
+  const CLIENT_ID = client_id_of(node_name, master_of(server_config.node_name));
+  const ctx = {
+    node_name,
+    traffic_id: svc.traffic,
+    server_id: picked_server_id,
+    server_config,
+    // shared by all the secret proxies of the traffic
+    secret_key: nanoid(32),
+    transport: svc.transport,
+    // the candidates are filtered optimistically, checked again when claiming
+    max_ports: quota.max_ports_per_server,
+  };
+  let remote_addr_json: Record<string, string>;
+  const rollback = new Rollback(svc.traffic);
+  try {
+    // step 1: reserve domains and ports
+    const proxies = await gen_config_proxies(ctx, NAME_PREFIX, svc.ports);
+    const occupied_ports = proxies.flatMap((p) => (need_remote_port(p.type) && p.remote_port ? [p.remote_port] : []));
+    rollback.add("reserve", () =>
+      Promise.all([
+        release_ports(picked_server_id, svc.traffic, occupied_ports),
+        release_domains(svc.traffic, domains_of(proxies, picked_server_id)),
+      ])
+    );
 
-      // occupy ports
-      const occupied_ports = proxies
-        .filter((p) => p.type !== "http" && p.remote_port)
-        .map((p) => p.remote_port!) as number[];
+    // step 2: create each proxy, the panel may append `@{user_id}` to the client id, so undo by listing
+    console.log(
+      `Updating proxy config: ${[
+        `client_id=${CLIENT_ID}`,
+        `server_id=${picked_server_id}`,
+        `ports=${svc.ports.map((p) => `${p.node_port}/${p.service_type}`).join(",")}`,
+        `caller=${opts.caller ?? "-"}`,
+      ].join(", ")}`
+    );
+    rollback.add("create", async () => {
+      const created = await api.list_all_proxy_configs(`${NAME_PREFIX}:`, server_config.master);
       await Promise.all(
-        occupied_ports.map((p) => {
-          // set port:{traffic_id}:{port} -> traffic_id
-          return cache.at("port").at(ctx.server_id).at(p).set(ctx.traffic_id);
-        })
+        created.map((pc) =>
+          api.delete_proxy_config({
+            client_id: pc.client_id,
+            server_id: pc.server_id,
+            name: pc.name,
+            master: pc.master,
+          })
+        )
       );
-      return [create_params.config, occupied_ports];
     });
+    for (const proxy of proxies) {
+      const create_params_one: CreateConfigParam<Cached.TrafficConfig["config"]> = {
+        client_id: CLIENT_ID,
+        server_id: picked_server_id,
+        master: server_config.master,
+        config: to_camel({ proxies: [proxy] }, HEADER_MAPS),
+        // a leftover proxy of the same name fails the step, and is deleted by the undo
+        overwrite: false,
+      };
+      await panel_step(`create proxy ${proxy.name}`, () => api.create_proxy_config(create_params_one));
+    }
+    const proxy_lists = await api.list_all_proxy_configs(`${NAME_PREFIX}:`, server_config.master).catch((e) => {
+      throw new ProvisionError("panel_error", "failed to list proxy configs after creation", { cause: e });
+    });
+    const proxy_keys = proxy_lists.map((pc) => ({
+      client_id: pc.client_id,
+      server_id: pc.server_id,
+      name: pc.name,
+      master: pc.master,
+    }));
+    // the client id as the panel recorded it
+    const [owner] = proxy_keys;
+    if (!owner || proxy_lists.length < proxies.length) {
+      throw new ProvisionError(
+        "panel_error",
+        `${proxy_lists.length} of ${proxies.length} proxy configs found after creation`
+      );
+    }
 
-    const proxy_lists = await api.list_all_proxy_configs(`${NAME_PREFIX}:`);
-    if (!proxy_lists.length) throw new Error("Failed to list proxy configs after creation");
-
-    // set working:{traffic_id} -> { client_id, server_id, name }, with no expire, cleanup if working deleted
+    // step 3: record working and conf, so that cleanup takes over if we crash from now on
+    // another replica may have taken over if we stalled, do not overwrite its state
+    await lock?.assert_held();
+    // set working:{traffic_id} -> { client_id, server_id, name, master }, with no expire, cleanup if working deleted
     await cache
       .at("working")
       .at(svc.traffic)
       .set(
         JSON.stringify(
-          config.proxies.map((p) => ({
-            client_id: proxy_lists[0]!.client_id,
-            server_id: proxy_lists[0]!.server_id,
+          proxies.map((p) => ({
+            client_id: owner.client_id,
+            server_id: owner.server_id,
             name: p.name,
+            // routed by it even if the server is removed from the config later
+            master: owner.master,
           }))
         )
       );
-
     // set traffic:{traffic_id}:conf -> Cached.TrafficConfig, with expire
     await cache_key_conf.set(
       JSON.stringify({
-        client_id: proxy_lists[0]!.client_id,
-        server_id: proxy_lists[0]!.server_id,
-        config: config,
+        client_id: owner.client_id,
+        server_id: owner.server_id,
+        config: { proxies },
       }),
       delta_now(SVC_EXPIRE_AT)
     );
+    rollback.add("record", () => Promise.all([cache.at("working").at(svc.traffic).del(), cache_key_conf.del()]));
 
-    async function wait_ready(retry = 5, interval = 500) {
-      for (let i = 0; i < retry; i++) {
-        // get remote address
-        const details = await Promise.all(
-          proxy_lists.map((proxy) =>
-            api
-              .get_proxy_config({
-                client_id: proxy.client_id,
-                server_id: proxy.server_id,
-                name: proxy.name,
-              })
-              .then((res) => res.body)
-          )
-        );
-        const is_all_status_running = details.every((detail) => detail.working_status.status === "running");
-        if (!is_all_status_running) {
-          await sleep(interval);
-        } else {
-          return details;
-        }
-      }
-      return null;
-    }
-
-    const details = await wait_ready();
-    if (!details) {
-      await delete_traffic_unsafe(svc.traffic).catch(void 0);
-      throw new HTTPException(503, { message: "cannot start traffic" });
-    }
+    // step 4: wait for ready
+    const end_wait_ready = metrics.wait_ready_duration.startTimer();
+    const details = await wait_ready(proxy_keys).catch((e) => {
+      end_wait_ready({ outcome: "error" });
+      throw new ProvisionError("panel_error", "failed to query proxy status", { cause: e });
+    });
+    end_wait_ready({ outcome: details ? "ready" : "timeout" });
+    if (!details) throw new ProvisionError("not_ready", "proxies are not running in time");
 
-    const remote_addr = new Map<string, string>(); // name:port/service_type -> remote_addr
-
-    for (const detail of details) {
-      const port_key = detail.working_status.name.split(":").slice(-2).join(":");
-      if (detail.working_status.type === "http") {
-        remote_addr.set(port_key, detail.working_status.remote_addr);
-      } else {
-        remote_addr.set(port_key, `${server_config.remote_addr}:${detail.working_status.remote_addr.split(":").pop()}`);
-      }
-    }
+    remote_addr_json = build_remote_addr(details, server_config, proxies);
 
     // set traffic:{traffic_id}:addr -> Cached.TrafficAddr, with expire
-    const remote_addr_json = Object.fromEntries(remote_addr.entries());
     await cache_key_addr.set(
       JSON.stringify({
         remote_ports: occupied_ports,
         remote_addr: remote_addr_json,
       }),
-      delta_now(SVC_EXPIRE_AT)
+      delta_now(SVC_EXPIRE_AT) + addr_expire_grace()
     );
+  } catch (e) {
+    await rollback.run();
+    if (e instanceof ProvisionError) e.server_id ??= picked_server_id;
+    throw e;
+  }
+
+  metrics.traffic_created.inc();
+  emit({
+    type: "traffic.created",
+    traffic_id: svc.traffic,
+    node_name,
+    server_id: picked_server_id,
+    remote_addr: remote_addr_json,
+    expire_at: SVC_EXPIRE_AT,
+  });
+  audit({
+    action: "create",
+    caller: opts.caller ?? "-",
+    traffic_id: svc.traffic,
+    node_name,
+    server_id: picked_server_id,
+    ports: remote_addr_json,
+    outcome: "success",
+    detail: `expire_at=${SVC_EXPIRE_AT}`,
+  });
+
+  return remote_addr_json;
+}
+
+// KEYS: working, conf, addr
+// ARGV: working, conf, conf_ttl, addr, addr_ttl
+// record the patched traffic at once, a crash never leaves the keys of two versions behind
+const SCRIPT_RECORD = define_script(
+  `
+redis.call("SET", KEYS[1], ARGV[1])
+redis.call("SET", KEYS[2], ARGV[2], "EX", ARGV[3])
+redis.call("SET", KEYS[3], ARGV[4], "EX", ARGV[5])
+return 1
+`,
+  (db, [working, conf, addr], [working_json, conf_json, conf_ttl, addr_json, addr_ttl]) => {
+    db.set(working!, working_json!);
+    db.set(conf!, conf_json!, { px: Number(conf_ttl) * 1000 });
+    db.set(addr!, addr_json!, { px: Number(addr_ttl) * 1000 });
+    return 1;
+  }
+);
+
+/**
+ * Whether the proxy still serves the port on the same domain, a changed domain needs a new reservation.
+ */
+function same_domain(proxy: ProxyConfigDetail, port: NormalizedService["ports"][number]) {
+  if (!is_http(proxy.type)) return true;
+  if (port.custom_domain) return proxy.custom_domains?.[0] === port.custom_domain.toLowerCase();
+  if (proxy.custom_domains?.length) return false;
+  // a random subdomain is kept as long as no vanity one is asked for
+  return port.subdomain === undefined || proxy.subdomain === port.subdomain.toLowerCase();
+}
+
+/**
+ * Apply the options of the port to the cached proxy, the name, domain, remote port and secret are kept.
+ */
+function with_options(
+  proxy: ProxyConfigDetail,
+  port: NormalizedService["ports"][number],
+  transport?: TransportConfig
+): ProxyConfigDetail {
+  const {
+    http_user: _user,
+    http_password: _password,
+    host_header_rewrite: _rewrite,
+    locations: _locations,
+    request_headers: _request,
+    response_headers: _response,
+    route_by_http_user: _route,
+    allow_users: _allow,
+    transport: _transport,
+    ...rest
+  } = proxy;
+  const next: ProxyConfigDetail = { ...rest };
+  if (proxy.type === "http") Object.assign(next, http_options_of(port));
+  if (proxy.type === "stcp" || proxy.type === "xtcp") next.allow_users = port.allow_users ?? ["*"];
+  if (transport) next.transport = transport;
+  return next;
+}
+
+/**
+ * Compare proxy configs regardless of the key order.
+ */
+function same_config(a: ProxyConfigDetail, b: ProxyConfigDetail) {
+  const canonical = (v: unknown): unknown =>
+    Array.isArray(v)
+      ? v.map(canonical)
+      : v !== null && typeof v === "object"
+        ? Object.fromEntries(
+            Object.entries(v)
+              .filter(([, x]) => x !== undefined)
+              .sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0))
+              .map(([k, x]) => [k, canonical(x)])
+          )
+        : v;
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+/**
+ * Diff the ports of the service against the cached proxies, create the added ones, reconfigure the changed ones in
+ * place and delete the removed ones. Unchanged proxies are untouched, and changed ones keep their remote ports, so
+ * addresses stay stable unless the domain of a port is changed.
+ * @returns The new remote_addr, or null if nothing changed.
+ */
+async function patch_traffic_unsafe(
+  node_name: string,
+  svc: NormalizedService,
+  cached_conf: Cached.TrafficConfig,
+  cached_addr: Cached.TrafficAddr,
+  opts: UpdateOptions,
+  lock?: Lock
+) {
+  const NAME_PREFIX = `ret2shell:${svc.traffic}`;
+  const name_of = (p: NormalizedService["ports"][number]) =>
+    `${NAME_PREFIX}:${p.name}:${p.node_port}/${p.service_type}`;
+  const port_key_of = (name: string) => name.split(":").slice(-2).join(":");
+
+  const server_id = cached_conf.server_id;
+  const server_config = server_config_of(server_id);
+  const transport = merge_transport(server_config?.transport, svc.transport);
+
+  const cached_by_name = new Map(cached_conf.config.proxies.map((p) => [p.name, p]));
+  const wanted = new Set(svc.ports.map(name_of));
+  const kept: ProxyConfigDetail[] = [];
+  // reconfigured in place
+  const updated: ProxyConfigDetail[] = [];
+  // new ports, and ports whose domain changed which are overwritten by a new proxy of the same name
+  const added_ports: NormalizedService["ports"] = [];
+  const replaced: ProxyConfigDetail[] = [];
+  for (const port of svc.ports) {
+    const cached = cached_by_name.get(name_of(port));
+    if (!cached) {
+      added_ports.push(port);
+    } else if (!same_domain(cached, port)) {
+      added_ports.push(port);
+      replaced.push(cached);
+    } else {
+      const next = with_options(cached, port, transport);
+      if (same_config(next, cached)) kept.push(cached);
+      else updated.push(next);
+    }
+  }
+  const removed = cached_conf.config.proxies.filter((p) => !wanted.has(p.name));
+  if (!removed.length && !added_ports.length && !updated.length) return null;
+
+  if (!server_config) throw new HTTPException(409, { message: `frp server ${server_id} is no longer configured` });
+
+  console.log(
+    `Patching traffic: ${[
+      `traffic_id=${svc.traffic}`,
+      `server_id=${server_id}`,
+      `added=${added_ports.map((p) => `${p.node_port}/${p.service_type}`).join(",") || "-"}`,
+      `updated=${updated.map((p) => port_key_of(p.name)).join(",") || "-"}`,
+      `removed=${removed.map((p) => port_key_of(p.name)).join(",") || "-"}`,
+      `caller=${opts.caller ?? "-"}`,
+    ].join(", ")}`
+  );
+
+  const ctx = {
+    node_name,
+    traffic_id: svc.traffic,
+    server_id,
+    server_config,
+    // keep the secret of the existing secret proxies, so that running visitors still work
+    secret_key: cached_conf.config.proxies.find((p) => p.secret_key)?.secret_key ?? nanoid(32),
+    transport: svc.transport,
+    max_ports: resolve_quota(opts.quota).max_ports_per_server,
+  };
+  // undo, the traffic keeps its old ports
+  const rollback = new Rollback(svc.traffic);
+  // reserving is all or nothing by itself
+  const added = await gen_config_proxies(ctx, NAME_PREFIX, added_ports);
+  const added_remote_ports = added.filter((p) => need_remote_port(p.type) && p.remote_port).map((p) => p.remote_port!);
+  rollback.add("reserve", () =>
+    Promise.all([
+      release_ports(server_id, svc.traffic, added_remote_ports),
+      // the old domains of the replaced proxies are still held
+      release_domains(
+        svc.traffic,
+        domains_of(added, server_id).filter((d) => !domains_of(replaced, server_id).includes(d))
+      ),
+    ])
+  );
+  const master = server_config.master;
+  const key_of = (p: ProxyConfigDetail) => ({ client_id: cached_conf.client_id, server_id, name: p.name, master });
+  let details: Awaited<ReturnType<typeof wait_ready>> = [];
+  try {
+    for (const proxy of [...added, ...updated]) {
+      const old = cached_by_name.get(proxy.name);
+      await panel_step(`${old ? "update" : "create"} proxy ${proxy.name}`, () =>
+        api.create_proxy_config({
+          client_id: cached_conf.client_id,
+          server_id,
+          master,
+          config: to_camel({ proxies: [proxy] }, HEADER_MAPS),
+          overwrite: !!old,
+        })
+      );
+      if (old) {
+        rollback.add("update", () =>
+          api.create_proxy_config({
+            client_id: cached_conf.client_id,
+            server_id,
+            master,
+            config: to_camel({ proxies: [old] }, HEADER_MAPS),
+            overwrite: true,
+          })
+        );
+      } else {
+        rollback.add("create", () => api.delete_proxy_config(key_of(proxy)));
+      }
+    }
+    const touched_keys = [...added, ...updated].map(key_of);
+    if (touched_keys.length) {
+      const end_wait_ready = metrics.wait_ready_duration.startTimer();
+      details = await wait_ready(touched_keys).catch((e) => {
+        end_wait_ready({ outcome: "error" });
+        throw new ProvisionError("panel_error", "failed to query proxy status", { cause: e });
+      });
+      end_wait_ready({ outcome: details ? "ready" : "timeout" });
+      if (!details) throw new ProvisionError("not_ready", "proxies are not running in time");
+    }
+    await lock?.assert_held();
+  } catch (e) {
+    await rollback.run();
+    if (e instanceof ProvisionError) e.server_id ??= server_id;
+    throw e;
+  }
 
-    return remote_addr_json;
+  // keep the order of the service ports
+  const by_name = new Map([...kept, ...updated, ...added].map((p) => [p.name, p]));
+  const proxies = svc.ports.map((p) => by_name.get(name_of(p))!);
+  const dropped = [...removed, ...replaced];
+  const removed_remote_ports = removed
+    .filter((p) => need_remote_port(p.type) && p.remote_port)
+    .map((p) => p.remote_port!);
+  const remote_addr = Object.fromEntries(
+    Object.entries(cached_addr.remote_addr).filter(([k]) => !dropped.some((p) => port_key_of(p.name) === k))
+  );
+  Object.assign(remote_addr, build_remote_addr(details ?? [], server_config, [...added, ...updated]));
+  const remote_ports = [
+    ...cached_addr.remote_ports.filter((port) => !removed_remote_ports.includes(port)),
+    ...added_remote_ports,
+  ];
+
+  const delta = Math.max(1, delta_now(svc.created_at + svc.lifetime));
+  await cache.eval(
+    SCRIPT_RECORD,
+    [
+      cache.at("working").at(svc.traffic),
+      cache.at("traffic").at(svc.traffic).at("conf"),
+      cache.at("traffic").at(svc.traffic).at("addr"),
+    ],
+    [
+      JSON.stringify(proxies.map(key_of)),
+      JSON.stringify({ client_id: cached_conf.client_id, server_id, config: { proxies } }),
+      delta,
+      JSON.stringify({ remote_ports, remote_addr }),
+      delta + addr_expire_grace(),
+    ]
+  );
+
+  // release the removed ports, the replaced proxies are overwritten already
+  await Promise.all([
+    ...removed.map((p) => api.delete_proxy_config(key_of(p)).catch(console.error)),
+    release_ports(server_id, svc.traffic, removed_remote_ports).catch(console.error),
+    // a domain may move from a removed port to an added one
+    release_domains(
+      svc.traffic,
+      domains_of(dropped, server_id).filter((d) => !domains_of(added, server_id).includes(d))
+    ).catch(console.error),
+  ]);
+
+  metrics.traffic_updated.inc();
+  emit({
+    type: "traffic.updated",
+    traffic_id: svc.traffic,
+    node_name,
+    server_id,
+    remote_addr,
+    expire_at: svc.created_at + svc.lifetime,
+  });
+  audit({
+    action: "update",
+    caller: opts.caller ?? "-",
+    traffic_id: svc.traffic,
+    node_name,
+    server_id,
+    ports: remote_addr,
+    outcome: "success",
+    detail: `added=${added.length - replaced.length}, updated=${updated.length + replaced.length}, removed=${removed.length}`,
+  });
+  return remote_addr;
+}
+
+// KEYS: state
+// ARGV: request_id, state, ttl
+// settle the state recorded by the request, an empty request_id settles a failed state of any request,
+// an empty state deletes it, returns 1 if settled
+const SCRIPT_SETTLE = define_script(
+  `
+local cur = redis.call("GET", KEYS[1])
+if not cur then
+  return 0
+end
+local ok, decoded = pcall(cjson.decode, cur)
+if not ok or type(decoded) ~= "table" then
+  return 0
+end
+if ARGV[1] == "" then
+  if decoded.state ~= "failed" then
+    return 0
+  end
+elseif decoded.request_id ~= ARGV[1] then
+  return 0
+end
+if ARGV[2] == "" then
+  redis.call("DEL", KEYS[1])
+else
+  redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+end
+return 1
+`,
+  (db, [key], [request_id, state, ttl]) => {
+    const cur = db.get(key!)?.parseJSON<Cached.ProvisionState>();
+    if (!cur || typeof cur !== "object") return 0;
+    if (request_id === "" ? cur.state !== "failed" : cur.request_id !== request_id) return 0;
+    if (state === "") db.del(key!);
+    else db.set(key!, state!, { px: Number(ttl) * 1000 });
+    return 1;
   }
+);
+
+/**
+ * Settle the provision state, a newer request which recorded its own state is never overwritten.
+ * @param request_id the async request, or undefined to clear a stale failure
+ * @param state the new state, or null to delete it
+ */
+async function settle_state(traffic_id: string, request_id: string | undefined, state: Cached.ProvisionState | null) {
+  await cache.eval(
+    SCRIPT_SETTLE,
+    [cache.at("traffic").at(traffic_id).at("state")],
+    [request_id ?? "", state ? JSON.stringify(state) : "", CONFIG.provision.state_ttl]
+  );
 }
 
-export function update_traffic(node_name: string, service: Service) {
-  return mutex_cache_w.runExclusive(() => update_traffic_unsafe(node_name, service));
+export async function update_traffic(node_name: string, service: Service, opts: UpdateOptions = {}) {
+  const end = metrics.update_traffic_duration.startTimer();
+  let outcome = "failure";
+  try {
+    const result = await with_lock(`traffic:${service.traffic}`, async (lock) => {
+      try {
+        const result = await update_traffic_unsafe(node_name, service, opts, lock);
+        // provisioned, and a failure recorded by an earlier async request is stale now
+        await settle_state(service.traffic, opts.request_id, null).catch(console.error);
+        return result;
+      } catch (e) {
+        if (opts.request_id) {
+          // a rejected request only drops its own pending state, the traffic is left as is
+          const state = is_rejected(e) ? null : failed_state(node_name, opts, e);
+          await settle_state(service.traffic, opts.request_id, state).catch(console.error);
+        }
+        throw e;
+      }
+    });
+    outcome = "success";
+    return result;
+  } catch (e) {
+    if (e instanceof QuotaError) metrics.traffic_failures.inc({ reason: "quota" });
+    else if (e instanceof ProvisionError) metrics.traffic_failures.inc({ reason: e.code });
+    else if (e instanceof api.PanelError) metrics.traffic_failures.inc({ reason: "panel_error" });
+    // the server picked by the failed attempt, or the one the traffic already lives on
+    const server_id =
+      (e instanceof ProvisionError && e.server_id) ||
+      ((await get_traffic_owner(service.traffic).catch(() => null))?.server_id ?? null);
+    // the traffic is fine if the request is only rejected
+    if (!is_rejected(e)) {
+      emit({
+        type: "traffic.failed",
+        traffic_id: service.traffic,
+        node_name,
+        server_id,
+        remote_addr: null,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+    // create or update, not known once failed
+    audit({
+      action: "update",
+      caller: opts.caller ?? "-",
+      traffic_id: service.traffic,
+      node_name,
+      server_id,
+      ports: null,
+      outcome: "failure",
+      detail: e instanceof Error ? e.message : String(e),
+    });
+    throw e;
+  } finally {
+    end({ outcome });
+  }
+}
+
+function failed_state(node_name: string, opts: UpdateOptions, e: unknown): Cached.ProvisionState {
+  return {
+    state: "failed",
+    node_name,
+    request_id: opts.request_id,
+    updated_at: Math.floor(Date.now() / 1000),
+    error: failure_of(e),
+  };
 }
 
-async function delete_traffic_unsafe(traffic_id: string) {
+/**
+ * Provision in background, the progress is recorded as `traffic:{traffic_id}:state` for polling.
+ * The state is tagged with the request, so that a slower older request never overwrites the state of a newer one.
+ * A pending state left by a crashed replica expires after `provision.state_ttl`.
+ * @returns The pending state.
+ */
+export async function provision_traffic(node_name: string, service: Service, opts: UpdateOptions = {}) {
+  // a request rejected anyway records nothing, nor claims a traffic id of another node
+  await check_update(normalize_service(service), opts);
+  const request_id = nanoid();
+  const pending: Cached.ProvisionState = {
+    state: "pending",
+    node_name,
+    request_id,
+    updated_at: Math.floor(Date.now() / 1000),
+  };
+  // the newest request wins, the older ones still running leave it alone
+  await cache.at("traffic").at(service.traffic).at("state").set(JSON.stringify(pending), CONFIG.provision.state_ttl);
+  console.log(
+    `Provisioning traffic in background: ${[`traffic_id=${service.traffic}`, `node_name=${node_name}`, `request_id=${request_id}`, `caller=${opts.caller ?? "-"}`].join(", ")}`
+  );
+  update_traffic(node_name, service, { ...opts, request_id }).catch(async (e) => {
+    // settled under the lock already unless the lock is not acquired
+    await settle_state(service.traffic, request_id, failed_state(node_name, { request_id }, e)).catch(console.error);
+  });
+  return pending;
+}
+
+/**
+ * Wait until the async provisioning of the traffic is no longer pending.
+ * @param timeout in milliseconds
+ */
+export async function wait_provisioned(traffic_id: string, timeout: number, interval = 250) {
+  const cache_key_state = cache.at("traffic").at(traffic_id).at("state");
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    const state = (await cache_key_state.get())?.parseJSON<Cached.ProvisionState>() ?? null;
+    if (state?.state !== "pending") return;
+    await sleep(Math.min(interval, Math.max(0, deadline - Date.now())));
+  }
+}
+
+async function delete_traffic_unsafe(traffic_id: string, caller?: string) {
   const cache_key_working = cache.at("working").at(traffic_id);
   const cache_key_conf = cache.at("traffic").at(traffic_id).at("conf");
   const cache_key_addr = cache.at("traffic").at(traffic_id).at("addr");
   const cache_proxy_config_unique_keys =
     (await cache_key_working.get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null;
-  const cached_conf = (await cache_key_conf.get())?.parseJSON<Cached.TrafficConfig>() ?? null;
+  const cached_conf = await read_conf(traffic_id);
   const cached_addr = (await cache_key_addr.get())?.parseJSON<Cached.TrafficAddr>() ?? null;
 
+  const client_id = cached_conf?.client_id ?? cache_proxy_config_unique_keys?.[0]?.client_id;
   const info = {
     traffic_id,
+    node_name: client_id ? node_name_of(client_id) : null,
+    server_id: cached_conf?.server_id ?? cache_proxy_config_unique_keys?.[0]?.server_id ?? null,
     remote_addr: cached_addr?.remote_addr,
   };
 
   const deleting_pools: Promise<unknown>[] = [];
 
-  console.log(`Deleting traffic: ${traffic_id}`);
+  console.log(`Deleting traffic: ${[`traffic_id=${traffic_id}`, `caller=${caller ?? "-"}`].join(", ")}`);
   deleting_pools.push(
     // delete traffic
     cache_key_conf.del().catch(void 0),
-    cache_key_addr.del().catch(void 0)
+    cache_key_addr.del().catch(void 0),
+    cache
+      .at("traffic")
+      .at(traffic_id)
+      .at("state")
+      .del()
+      .catch(void 0)
   );
   if (cached_conf && cached_addr) {
     const server_id = cached_conf.server_id;
     const remote_ports = cached_addr.remote_ports;
     deleting_pools.push(
       // delete all ports
-      ...remote_ports.map((port) => cache.at("port").at(server_id).at(port).del())
+      release_ports(server_id, traffic_id, remote_ports)
+    );
+  }
+  if (cached_conf) {
+    deleting_pools.push(
+      // delete all domains
+      release_domains(traffic_id, domains_of(cached_conf.config.proxies, cached_conf.server_id)).catch(void 0)
     );
   }
+  // a proxy gone already is done, the others keep the working entry for the sweep to retry
+  let proxies_gone = true;
   if (cache_proxy_config_unique_keys) {
     deleting_pools.push(
       // delete proxy config
-      ...cache_proxy_config_unique_keys.map((pk) => api.delete_proxy_config(pk).catch(void 0))
+      ...cache_proxy_config_unique_keys.map((pk) =>
+        api.delete_proxy_config(pk).catch((e) => {
+          if (api.is_not_found(e)) return;
+          proxies_gone = false;
+          console.error(`Error deleting proxy ${pk.name}:`, e);
+        })
+      )
     );
   }
 
   await Promise.all(deleting_pools);
+  // delete working last, so that the traffic is no longer listed, counted or torn down by the sweep
+  if (proxies_gone) {
+    await cache_key_working.del();
+    if (info.node_name) await release_node_traffic(info.node_name, traffic_id).catch(void 0);
+  }
+
+  return { info, existed: !!(cache_proxy_config_unique_keys || cached_conf) };
+}
+
+export interface TrafficOwner {
+  node_name: string | null;
+  server_id: string | null;
+}
+
+/**
+ * Read the k8s node and frp server of the traffic without querying frp-panel.
+ */
+async function get_traffic_owner(traffic_id: string): Promise<TrafficOwner> {
+  const cached_conf =
+    (await cache.at("traffic").at(traffic_id).at("conf").get())?.parseJSON<Cached.TrafficConfig>() ?? null;
+  const working = (await cache.at("working").at(traffic_id).get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null;
+  const client_id = cached_conf?.client_id ?? working?.[0]?.client_id;
+  return {
+    node_name: client_id ? node_name_of(client_id) : null,
+    server_id: cached_conf?.server_id ?? working?.[0]?.server_id ?? null,
+  };
+}
+
+export interface DeleteOptions {
+  /**
+   * caller identity for logs
+   */
+  caller?: string;
+  /**
+   * checked under the traffic lock before deleting
+   */
+  authorize?: (owner: TrafficOwner) => boolean;
+}
 
+export async function delete_traffic(traffic_id: string, opts: DeleteOptions = {}) {
+  const { info, existed } = await with_lock(`traffic:${traffic_id}`, async () => {
+    if (opts.authorize && !opts.authorize(await get_traffic_owner(traffic_id))) {
+      throw new HTTPException(403, { message: "forbidden" });
+    }
+    return delete_traffic_unsafe(traffic_id, opts.caller);
+  }).catch(async (e) => {
+    // visible to the tokens of the node as well
+    const owner = await get_traffic_owner(traffic_id).catch(() => null);
+    audit({
+      action: "delete",
+      caller: opts.caller ?? "-",
+      traffic_id,
+      node_name: owner?.node_name ?? null,
+      server_id: owner?.server_id ?? null,
+      ports: null,
+      outcome: "failure",
+      detail: e instanceof Error ? e.message : String(e),
+    });
+    throw e;
+  });
+  // nothing to report if the traffic has gone already
+  if (existed) {
+    metrics.traffic_deleted.inc();
+    emit({ type: "traffic.deleted", ...info, remote_addr: info.remote_addr ?? null });
+  }
+  audit({
+    action: "delete",
+    caller: opts.caller ?? "-",
+    traffic_id,
+    node_name: info.node_name,
+    server_id: info.server_id,
+    ports: info.remote_addr ?? null,
+    outcome: "success",
+    detail: existed ? undefined : "not found",
+  });
   return info;
 }
 
-export function delete_traffic(traffic_id: string) {
-  return mutex_cache_w.runExclusive(() => delete_traffic_unsafe(traffic_id));
+/*=== Inspection ===*/
+
+function protocol_of(proxy_name: string) {
+  return proxy_name.split("/").pop() ?? "";
+}
+
+/**
+ * Generate the frpc config for players to visit the STCP / XTCP ports of the traffic.
+ * @returns The config in TOML, or null if the traffic has no secret ports.
+ */
+export async function get_visitor_config(traffic_id: string) {
+  const cached_conf = await read_conf(traffic_id);
+  if (!cached_conf) return null;
+  const secret_proxies = cached_conf.config.proxies.filter((p) => p.type === "stcp" || p.type === "xtcp");
+  if (!secret_proxies.length) return null;
+  const sc = server_config_of(cached_conf.server_id);
+  if (!sc) return null;
+
+  const str = (v: string) => JSON.stringify(v);
+  const lines = [`serverAddr = ${str(sc.remote_addr)}`, `serverPort = ${sc.bind_port}`];
+  if (sc.visitor_token) lines.push(`auth.token = ${str(sc.visitor_token)}`);
+  for (const p of secret_proxies) {
+    // ret2shell:{traffic_id}:{name}:{port}/{type}
+    const port_name = p.name.split(":")[2] ?? "port";
+    lines.push(
+      "",
+      "[[visitors]]",
+      `name = ${str(`${port_name}-${p.local_port}`.replace(/[^a-zA-Z0-9_-]+/g, "-"))}`,
+      `type = ${str(p.type)}`,
+      `serverName = ${str(p.name)}`,
+      `secretKey = ${str(p.secret_key ?? "")}`,
+      `bindAddr = "127.0.0.1"`,
+      `bindPort = ${p.local_port}`
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Hide the credentials of the proxies, the secret key is only handed out in the visitor config.
+ */
+function redact_conf(conf: Cached.TrafficConfig): Cached.TrafficConfig {
+  return {
+    ...conf,
+    config: {
+      ...conf.config,
+      proxies: conf.config.proxies.map(({ secret_key, http_password, ...p }) => ({
+        ...p,
+        ...(secret_key !== undefined && { secret_key: "<redacted>" }),
+        ...(http_password !== undefined && { http_password: "<redacted>" }),
+      })),
+    },
+  };
+}
+
+export async function get_traffic(traffic_id: string) {
+  const cache_key_working = cache.at("working").at(traffic_id);
+  const cache_key_conf = cache.at("traffic").at(traffic_id).at("conf");
+  const cache_key_addr = cache.at("traffic").at(traffic_id).at("addr");
+  const cache_key_state = cache.at("traffic").at(traffic_id).at("state");
+  const [proxy_config_unique_keys, cached_conf, cached_addr, ttl, visitor, provision] = await Promise.all([
+    cache_key_working.get().then((v) => v?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null),
+    read_conf(traffic_id),
+    cache_key_addr.get().then((v) => v?.parseJSON<Cached.TrafficAddr>() ?? null),
+    cache_key_conf.ttl(),
+    get_visitor_config(traffic_id),
+    cache_key_state.get().then((v) => v?.parseJSON<Cached.ProvisionState>() ?? null),
+  ]);
+  if (!proxy_config_unique_keys && !cached_conf && !provision) return null;
+
+  const client_id = cached_conf?.client_id ?? proxy_config_unique_keys?.[0]?.client_id ?? null;
+  const server_id = cached_conf?.server_id ?? proxy_config_unique_keys?.[0]?.server_id ?? null;
+
+  // query live status from frp-panel, a failed query is reported per proxy
+  const proxies = await Promise.all(
+    (proxy_config_unique_keys ?? []).map(async (pk) => {
+      try {
+        const res = await api.get_proxy_config(pk);
+        return { name: pk.name, working_status: res.body.working_status ?? null, error: null };
+      } catch (e) {
+        return { name: pk.name, working_status: null, error: e instanceof Error ? e.message : String(e) };
+      }
+    })
+  );
+
+  return {
+    traffic_id,
+    node_name: client_id ? node_name_of(client_id) : (provision?.node_name ?? null),
+    client_id,
+    server_id,
+    // pending or failed while async provisioning, a failed update leaves the old proxies working
+    state: provision?.state ?? "ready",
+    error: provision?.error ?? null,
+    // -2 if expired (only working entry left), -1 if no expire
+    ttl: ttl ?? -2,
+    conf: cached_conf && redact_conf(cached_conf),
+    addr: cached_addr,
+    proxies,
+    // frpc visitor config in TOML for STCP / XTCP ports
+    visitor,
+  };
+}
+
+export interface TrafficFilter {
+  node_name?: string;
+  server_id?: string;
+  protocol?: string;
+  /**
+   * hide traffic not visible to the caller
+   */
+  authorize?: (owner: TrafficOwner) => boolean;
+  page?: number;
+  page_size?: number;
+}
+
+export async function list_traffic(filter: TrafficFilter = {}) {
+  const page = Math.max(1, filter.page ?? 1);
+  const page_size = Math.max(1, filter.page_size ?? 20);
+
+  const all_working_keys = (await cache.at("working").at("*").keys()).sort();
+  const matched: {
+    traffic_id: string;
+    node_name: string;
+    client_id: string;
+    server_id: string;
+    proxies: { name: string; protocol: string }[];
+  }[] = [];
+  for (const working_key of all_working_keys) {
+    const traffic_id = working_key.split(":").pop()!;
+    const proxy_config_unique_keys =
+      (await cache.at("working").at(traffic_id).get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null;
+    if (!proxy_config_unique_keys?.length) continue;
+    const { client_id, server_id } = proxy_config_unique_keys[0]!;
+    const node_name = node_name_of(client_id);
+    const proxies = proxy_config_unique_keys.map((pk) => ({ name: pk.name, protocol: protocol_of(pk.name) }));
+    if (filter.node_name && filter.node_name !== node_name) continue;
+    if (filter.server_id && filter.server_id !== server_id) continue;
+    if (filter.protocol && !proxies.some((p) => p.protocol === filter.protocol)) continue;
+    if (filter.authorize && !filter.authorize({ node_name, server_id })) continue;
+    matched.push({ traffic_id, node_name, client_id, server_id, proxies });
+  }
+
+  const traffics = await Promise.all(
+    matched.slice((page - 1) * page_size, page * page_size).map(async (t) => ({
+      ...t,
+      ttl: (await cache.at("traffic").at(t.traffic_id).at("conf").ttl()) ?? -2,
+    }))
+  );
+
+  return { total: matched.length, page, page_size, traffics };
+}
+
+/*=== Drain ===*/
+
+export interface MigrateResult {
+  traffic_id: string;
+  from: string | null;
+  to: string | null;
+  remote_addr: Record<string, string> | null;
+  error?: string;
+}
+
+/**
+ * Move the traffic to another server, the old proxies and ports are released only after the new ones are running.
+ */
+async function migrate_traffic_unsafe(traffic_id: string, lock: Lock, caller = "-"): Promise<MigrateResult> {
+  const cache_key_working = cache.at("working").at(traffic_id);
+  const cache_key_conf = cache.at("traffic").at(traffic_id).at("conf");
+  const cache_key_addr = cache.at("traffic").at(traffic_id).at("addr");
+  const working = (await cache_key_working.get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null;
+  const cached_conf = await read_conf(traffic_id);
+  const cached_addr = (await cache_key_addr.get())?.parseJSON<Cached.TrafficAddr>() ?? null;
+  const ttl = (await cache_key_conf.ttl()) ?? -2;
+
+  const result: MigrateResult = { traffic_id, from: cached_conf?.server_id ?? null, to: null, remote_addr: null };
+  if (!working || !cached_conf || !cached_addr || ttl === -2) {
+    // expired, leave it to cleanup
+    return { ...result, error: "traffic expired" };
+  }
+
+  const from = cached_conf.server_id;
+  const candidates = await list_candidates(undefined, from);
+  if (!candidates.length) return { ...result, error: "no available frp server" };
+  const node_name = node_name_of(cached_conf.client_id);
+  const picked = await get_strategy().select(candidates, { node_name, traffic_id });
+
+  // the domain key depends on the `subdomain_host` of the server
+  const old_domains = domains_of(cached_conf.config.proxies, from);
+  const new_domains = domains_of(cached_conf.config.proxies, picked.id);
+  const added_domains = new_domains.filter((d) => !old_domains.includes(d));
+  const conflict = await claim_domains(traffic_id, added_domains);
+  if (conflict) return { ...result, error: `domain already in use: ${conflict}` };
+
+  const need_ports = cached_conf.config.proxies.filter((p) => need_remote_port(p.type)).length;
+  let new_ports: number[];
+  try {
+    new_ports = await claim_ports(picked.id, picked.config.port_range, traffic_id, need_ports);
+  } catch (e) {
+    await release_domains(traffic_id, added_domains).catch(void 0);
+    return { ...result, error: e instanceof Error ? e.message : String(e) };
+  }
+  const remote_ports = [...new_ports];
+  // keep the names and subdomains, only the remote ports change
+  const proxies: ProxyConfigDetail[] = cached_conf.config.proxies.map((p) =>
+    need_remote_port(p.type) ? { ...p, remote_port: remote_ports.shift()! } : { ...p }
+  );
+  // the k8s node is a different client on the master of another region
+  const client_id =
+    picked.config.master === server_config_of(from)?.master
+      ? cached_conf.client_id
+      : client_id_of(node_name, master_of(picked.config.node_name));
+  const new_keys = proxies.map((p) => ({
+    client_id,
+    server_id: picked.id,
+    name: p.name,
+    master: picked.config.master,
+  }));
+
+  console.log(
+    `Migrating traffic: ${[`traffic_id=${traffic_id}`, `from=${from}`, `to=${picked.id}`, `caller=${caller}`].join(", ")}`
+  );
+  let details: Awaited<ReturnType<typeof wait_ready>> = null;
+  try {
+    for (const proxy of proxies) {
+      await api.create_proxy_config({
+        client_id,
+        server_id: picked.id,
+        master: picked.config.master,
+        config: to_camel({ proxies: [proxy] }, HEADER_MAPS),
+        overwrite: false,
+      });
+    }
+    details = await wait_ready(new_keys);
+    if (!details) throw new Error("new proxies are not ready");
+    await lock.assert_held();
+  } catch (e) {
+    // undo, the traffic keeps working on the old server
+    await Promise.all([
+      ...new_keys.map((pk) => api.delete_proxy_config(pk).catch(void 0)),
+      release_ports(picked.id, traffic_id, new_ports).catch(void 0),
+      release_domains(traffic_id, added_domains).catch(void 0),
+    ]);
+    return { ...result, error: e instanceof Error ? e.message : String(e) };
+  }
+
+  const remote_addr = build_remote_addr(details, picked.config, proxies);
+  const expire = ttl > 0 ? ttl : undefined;
+  await cache_key_working.set(JSON.stringify(new_keys));
+  await cache_key_conf.set(JSON.stringify({ client_id, server_id: picked.id, config: { proxies } }), expire);
+  await cache_key_addr.set(
+    JSON.stringify({ remote_ports: new_ports, remote_addr }),
+    expire && expire + addr_expire_grace()
+  );
+
+  // release the old server
+  await Promise.all([
+    ...working.filter((pk) => pk.server_id !== picked.id).map((pk) => api.delete_proxy_config(pk).catch(void 0)),
+    release_ports(from, traffic_id, cached_addr.remote_ports).catch(void 0),
+    release_domains(
+      traffic_id,
+      old_domains.filter((d) => !new_domains.includes(d))
+    ).catch(void 0),
+  ]);
+
+  emit({
+    type: "traffic.migrated",
+    traffic_id,
+    node_name,
+    server_id: picked.id,
+    previous_server_id: from,
+    remote_addr,
+  });
+  audit({
+    action: "migrate",
+    caller,
+    traffic_id,
+    node_name,
+    server_id: picked.id,
+    ports: remote_addr,
+    outcome: "success",
+    detail: `from=${from}`,
+  });
+  return { ...result, to: picked.id, remote_addr };
+}
+
+export async function migrate_traffic(traffic_id: string, caller?: string) {
+  const result = await with_lock(`traffic:${traffic_id}`, (lock) => migrate_traffic_unsafe(traffic_id, lock, caller));
+  if (result.error) {
+    audit({
+      action: "migrate",
+      caller: caller ?? "-",
+      traffic_id,
+      node_name: (await get_traffic_owner(traffic_id)).node_name,
+      server_id: result.from,
+      ports: null,
+      outcome: "failure",
+      detail: result.error,
+    });
+  }
+  return result;
+}
+
+/**
+ * Move every active traffic off the server, the server should be cordoned first.
+ */
+export async function drain_server(node_name: string, caller?: string) {
+  const { traffics } = await list_traffic({ server_id: server_id_of(node_name), page_size: Number.MAX_SAFE_INTEGER });
+  const results: MigrateResult[] = [];
+  for (const t of traffics) {
+    results.push(
+      await migrate_traffic(t.traffic_id, caller).catch((e) => ({
+        traffic_id: t.traffic_id,
+        from: t.server_id,
+        to: null,
+        remote_addr: null,
+        error: e instanceof Error ? e.message : String(e),
+      }))
+    );
+  }
+  return results;
 }
 
 /*=== Cleanup ===*/
 
-async function cleanup_dead_traffic() {
+/**
+ * Tear down the traffic if its conf has expired, the caller should hold the traffic lock.
+ */
+async function teardown_dead_traffic(traffic_id: string, reason: string) {
+  const cache_key_working = cache.at("working").at(traffic_id);
+  const cache_key_conf = cache.at("traffic").at(traffic_id).at("conf");
+  const cache_key_addr = cache.at("traffic").at(traffic_id).at("addr");
+  const proxy_config_unique_keys = (await cache_key_working.get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null;
+  const cached_addr = (await cache_key_addr.get())?.parseJSON<Cached.TrafficAddr>() ?? null;
+  if (proxy_config_unique_keys?.length) {
+    // see if the traffic has been expired
+    const should_delete = !(await cache_key_conf.exists());
+    if (!should_delete) return;
+    const { client_id, server_id } = proxy_config_unique_keys[0]!;
+    console.log(
+      `Cleaning up dead traffic: ${[
+        `traffic_id=${traffic_id}`,
+        `client_id=${client_id}`,
+        `server_id=${server_id}`,
+        `name=${proxy_config_unique_keys.map((pk) => pk.name).join(",")}`,
+        `reason=${reason}`,
+      ].join(", ")}`
+    );
+    // the conf is gone, so the domains are looked up by owner
+    const domains = [...(await list_domains())].filter(([, owner]) => owner === traffic_id).map(([d]) => d);
+    // delete proxy config first, so that nothing is released while still in use if frp-panel fails,
+    // a proxy gone already (e.g. deleted by hand or by an earlier attempt) is done
+    await Promise.all(
+      proxy_config_unique_keys.map((pk) =>
+        api.delete_proxy_config(pk).catch((e) => {
+          if (!api.is_not_found(e)) throw e;
+        })
+      )
+    );
+    await Promise.all([
+      // delete all ports, the rest is left to `cleanup_dead_ports` if addr has expired as well
+      release_ports(server_id, traffic_id, cached_addr?.remote_ports ?? []).catch(void 0),
+      // delete all domains
+      release_domains(traffic_id, domains).catch(void 0),
+    ]);
+    await Promise.all([
+      // delete working
+      cache_key_working.del().catch(void 0),
+      // delete traffic
+      cache_key_conf.del().catch(void 0),
+      cache_key_addr.del().catch(void 0),
+    ]);
+    await release_node_traffic(node_name_of(client_id), traffic_id).catch(void 0);
+    metrics.traffic_expired.inc();
+    emit({
+      type: "traffic.expired",
+      traffic_id,
+      node_name: node_name_of(client_id),
+      server_id,
+      remote_addr: cached_addr?.remote_addr ?? null,
+    });
+    audit({
+      action: "expire",
+      caller: "cleanup",
+      traffic_id,
+      node_name: node_name_of(client_id),
+      server_id,
+      ports: cached_addr?.remote_addr ?? null,
+      outcome: "success",
+      detail: `reason=${reason}`,
+    });
+  } else {
+    // invalid working entry, just delete it
+    console.log(`Cleaning up dead traffic: ${[`traffic_id=${traffic_id}`, `reason=${reason}`].join(", ")}`);
+    await Promise.all([
+      // delete working
+      cache_key_working.del().catch(void 0),
+      // delete traffic
+      cache_key_conf.del().catch(void 0),
+      cache_key_addr.del().catch(void 0),
+    ]);
+  }
+}
+
+/**
+ * The safety net of `watch_expired_traffic`, for the expiry events missed while no replica was listening.
+ */
+export async function cleanup_dead_traffic() {
   const all_working_keys = await cache.at("working").at("*").keys();
   for (const working_key of all_working_keys) {
-    await mutex_cache_w.runExclusive(async () => {
-      const traffic_id = working_key.split(":").pop()!;
-      const cache_key_working = cache.at("working").at(traffic_id);
-      const cache_key_conf = cache.at("traffic").at(traffic_id).at("conf");
-      const cache_key_addr = cache.at("traffic").at(traffic_id).at("addr");
-      const proxy_config_unique_keys = (await cache_key_working.get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null;
-      if (proxy_config_unique_keys) {
-        // see if the traffic has been expired
-        const should_delete = !(await cache_key_conf.exists());
-        if (should_delete) {
-          console.log(
-            `Cleaning up dead traffic: ${[
-              `traffic_id=${traffic_id}`,
-              `client_id=${proxy_config_unique_keys[0]!.client_id}`,
-              `server_id=${proxy_config_unique_keys[0]!.server_id}`,
-              `name=${proxy_config_unique_keys.map((pk) => pk.name).join(",")}`,
-            ].join(", ")}`
-          );
-          await Promise.all([
-            // delete working
-            cache_key_working.del().catch(void 0),
-            // delete traffic
-            cache_key_conf.del().catch(void 0),
-            cache_key_addr.del().catch(void 0),
-            // delete proxy config
-            ...proxy_config_unique_keys.map((pk) => api.delete_proxy_config(pk).catch(void 0)),
-          ]);
-        }
-      } else {
-        // invalid working entry, just delete it
-        console.log(`Cleaning up dead traffic: ${[`traffic_id=${traffic_id}`].join(", ")}`);
-        await Promise.all([
-          // delete working
-          cache_key_working.del().catch(void 0),
-          // delete traffic
-          cache_key_conf.del().catch(void 0),
-          cache_key_addr.del().catch(void 0),
-        ]);
-      }
-    });
+    const traffic_id = working_key.split(":").pop()!;
+    // skip the traffic being updated, it will be checked next tick
+    await try_with_lock(`traffic:${traffic_id}`, () => teardown_dead_traffic(traffic_id, "sweep")).catch((e) =>
+      // e.g. frp-panel failed to delete a proxy, retried next tick without holding up the others
+      console.error(`Error tearing down dead traffic ${traffic_id}:`, e)
+    );
     await sleep(5);
   }
 }
 
+/**
+ * Tear down the traffic as soon as its conf expires, instead of waiting for the next sweep.
+ */
+async function watch_expired_traffic(is_leader: () => boolean) {
+  await cache.on_expired(cache.at("traffic").at("*").at("conf"), (key) => {
+    // only the leader replica cleans up, missed events are left to the sweep
+    if (!is_leader()) return;
+    const traffic_id = key.split(":")[1]!;
+    // wait for the update in progress, which may have extended the traffic
+    with_lock(`traffic:${traffic_id}`, () => teardown_dead_traffic(traffic_id, "expired")).catch((e) =>
+      console.error(`Error tearing down expired traffic ${traffic_id}:`, e)
+    );
+  });
+}
+
 async function cleanup_dead_ports() {
-  const all_port_keys = await cache.at("port").at("*").at("*").keys();
-  for (const port_key of all_port_keys) {
-    await mutex_cache_w.runExclusive(async () => {
-      const [_, server_id, port_str] = port_key.split(":") as [string, string, string];
-      const cache_key_port = cache.at("port").at(server_id).at(port_str);
-      const traffic_id = await cache_key_port.get();
-      if (traffic_id) {
+  const server_ids = await list_port_servers();
+  for (const server_id of server_ids) {
+    const reserved = await get_reserved_ports(server_id);
+    for (const [port, traffic_id] of reserved) {
+      // ports are claimed before working is recorded, skip the traffic being updated
+      await try_with_lock(`traffic:${traffic_id}`, async () => {
         const working_key = cache.at("working").at(traffic_id);
-        // if exists working:{traffic_id}, it means traffic is still working, do not delete port
+        // if exists working:{traffic_id}, it means traffic is still working, do not release port
         const should_delete = !(await working_key.exists());
         if (should_delete) {
           console.log(
-            `Cleaning up dead port: ${[`server_id=${server_id}`, `port=${port_str}`, `traffic_id=${traffic_id}`].join(", ")}`
+            `Cleaning up dead port: ${[`server_id=${server_id}`, `port=${port}`, `traffic_id=${traffic_id}`].join(", ")}`
           );
-          await cache_key_port.del().catch(void 0);
+          await release_ports(server_id, traffic_id, [port]).catch(void 0);
         }
-      } else {
-        // invalid cache entry, just delete it
-        console.log(`Cleaning up invalid port entry: ${[`server_id=${server_id}`, `port=${port_str}`].join(", ")}`);
-        await cache_key_port.del().catch(void 0);
+      });
+      await sleep(5);
+    }
+  }
+}
+
+async function cleanup_dead_domains() {
+  const domains = await list_domains();
+  for (const [domain, traffic_id] of domains) {
+    // domains are claimed before working is recorded, skip the traffic being updated
+    await try_with_lock(`traffic:${traffic_id}`, async () => {
+      const should_delete = !(await cache.at("working").at(traffic_id).exists());
+      if (should_delete) {
+        console.log(`Cleaning up dead domain: ${[`domain=${domain}`, `traffic_id=${traffic_id}`].join(", ")}`);
+        await release_domains(traffic_id, [domain]).catch(void 0);
       }
     });
     await sleep(5);
   }
 }
 
-async function cleanup_ticker(func: () => Promise<void>, delay: number = 0) {
+/**
+ * Keep the per-node count in line with working, e.g. after a crash between the count and the working write.
+ */
+async function cleanup_node_traffic() {
+  const counted = await list_node_traffic();
+  // working traffic missed by the count, e.g. recorded before the count existed
+  for (const working_key of await cache.at("working").at("*").keys()) {
+    const traffic_id = working_key.split(":").pop()!;
+    await try_with_lock(`traffic:${traffic_id}`, async () => {
+      const proxy_config_unique_keys =
+        (await cache.at("working").at(traffic_id).get())?.parseJSON<api.ProxyConfigUniqueKey[]>() ?? null;
+      const client_id = proxy_config_unique_keys?.[0]?.client_id;
+      if (!client_id) return;
+      const node_name = node_name_of(client_id);
+      if (counted.get(node_name)?.includes(traffic_id)) return;
+      console.log(`Counting node traffic: ${[`node_name=${node_name}`, `traffic_id=${traffic_id}`].join(", ")}`);
+      await reserve_node_traffic(node_name, traffic_id);
+    });
+    await sleep(5);
+  }
+  // counted traffic with no working entry
+  for (const [node_name, traffic_ids] of counted) {
+    for (const traffic_id of traffic_ids) {
+      // counted before working is recorded, skip the traffic being updated
+      await try_with_lock(`traffic:${traffic_id}`, async () => {
+        const should_delete = !(await cache.at("working").at(traffic_id).exists());
+        if (should_delete) {
+          console.log(
+            `Cleaning up dead node traffic: ${[`node_name=${node_name}`, `traffic_id=${traffic_id}`].join(", ")}`
+          );
+          await release_node_traffic(node_name, traffic_id).catch(void 0);
+        }
+      });
+      await sleep(5);
+    }
+  }
+}
+
+export async function cleanup_ticker(
+  func: () => Promise<void>,
+  delay: number = 0,
+  is_leader: () => boolean = () => true,
+  /**
+   * in seconds, read on every tick so that reloading config takes effect
+   */
+  interval: () => number = () => CONFIG.app.cleanup_interval
+) {
   let last_cleanup_time = 0;
-  const INTERVAL = CONFIG.app.cleanup_interval * 1000;
   const ticker = async () => {
+    const INTERVAL = interval() * 1000;
     last_cleanup_time = Date.now();
     try {
-      await func();
+      // only the leader replica cleans up
+      if (is_leader()) await func();
     } catch (e) {
       console.error("Error during cleanup:", e);
     }
@@ -508,6 +1974,14 @@ async function cleanup_ticker(func: () => Promise<void>, delay: number = 0) {
 }
 
 export function cleanup() {
-  cleanup_ticker(cleanup_dead_traffic, 0).catch(console.error);
-  cleanup_ticker(cleanup_dead_ports, 2).catch(console.error);
+  const is_leader = elect_leader("cleanup");
+  migrate_legacy_ports().catch(console.error);
+  migrate_legacy_fences().catch(console.error);
+  watch_expired_traffic(is_leader).catch((e) =>
+    console.warn("Expiry notifications unavailable, expired traffic is left to the sweep:", e)
+  );
+  cleanup_ticker(cleanup_dead_traffic, 0, is_leader).catch(console.error);
+  cleanup_ticker(cleanup_dead_ports, 2, is_leader).catch(console.error);
+  cleanup_ticker(cleanup_dead_domains, 4, is_leader).catch(console.error);
+  cleanup_ticker(cleanup_node_traffic, 6, is_leader).catch(console.error);
 }
@@ -1,16 +1,39 @@
+import config, { type MasterConfig } from "@/config";
 import type { NormalizedService, Service } from "./traffic";
 
 export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+/**
+ * @param verbatim keys whose values are copied as is, e.g. header maps
+ */
 // biome-ignore lint/suspicious/noExplicitAny: generic
-export function to_camel(obj: any): any {
-  if (Array.isArray(obj)) return obj.map(to_camel);
+export function to_camel(obj: any, verbatim: readonly string[] = []): any {
+  if (Array.isArray(obj)) return obj.map((v) => to_camel(v, verbatim));
   else if (obj !== null && typeof obj === "object") {
     // biome-ignore lint/suspicious/noExplicitAny: generic
     const newObj: any = {};
     for (const key in obj) {
       const camelKey = key.replace(/_([a-z])/g, (g) => g[1]!.toUpperCase());
-      newObj[camelKey] = to_camel(obj[key]);
+      newObj[camelKey] = verbatim.includes(key) ? obj[key] : to_camel(obj[key], verbatim);
+    }
+    return newObj;
+  } else {
+    return obj;
+  }
+}
+
+/**
+ * @param verbatim keys whose values are copied as is, e.g. header maps
+ */
+// biome-ignore lint/suspicious/noExplicitAny: generic
+export function to_snake(obj: any, verbatim: readonly string[] = []): any {
+  if (Array.isArray(obj)) return obj.map((v) => to_snake(v, verbatim));
+  else if (obj !== null && typeof obj === "object") {
+    // biome-ignore lint/suspicious/noExplicitAny: generic
+    const newObj: any = {};
+    for (const key in obj) {
+      const snakeKey = key.replace(/[A-Z]/g, (g) => `_${g.toLowerCase()}`);
+      newObj[snakeKey] = verbatim.includes(key) ? obj[key] : to_snake(obj[key], verbatim);
     }
     return newObj;
   } else {
@@ -20,9 +43,53 @@ export function to_camel(obj: any): any {
 
 export function normalize_service(service: Service): NormalizedService {
   for (const p of service.ports) {
-    if (p.app_protocol === "http") p.service_type = "http";
+    // secret tunnels take precedence, they must never be exposed publicly
+    if (p.protocol === "STCP") p.service_type = "stcp";
+    else if (p.protocol === "XTCP") p.service_type = "xtcp";
+    else if (p.app_protocol === "http") p.service_type = "http";
+    else if (p.app_protocol === "https") p.service_type = "https";
     else if (p.protocol === "UDP") p.service_type = "udp";
     else p.service_type = "tcp";
   }
   return service as unknown as NormalizedService;
 }
+
+/**
+ * Get the `[[master]]` managing the `[[server]]`, the first master if the server is unknown.
+ */
+export function master_of(server_node_name: string) {
+  const master = config.server.find((sc) => sc.node_name === server_node_name)?.master;
+  return config.master.find((m) => m.name === master) ?? config.master[0]!;
+}
+
+/**
+ * Get the k8s node name from the frp client id `<username>.c.<node_name>`.
+ */
+export function node_name_of(client_id: string) {
+  for (const m of config.master) {
+    const prefix = `${m.username}.c.`;
+    if (client_id.startsWith(prefix)) return client_id.slice(prefix.length);
+  }
+  return client_id;
+}
+
+/**
+ * Get the frp client id `<username>.c.<node_name>` of the k8s node on the master.
+ */
+export function client_id_of(node_name: string, master: MasterConfig) {
+  return `${master.username}.c.${node_name}`;
+}
+
+/**
+ * Get the frp server id `<username>.s.<node_name>` of `[[server]].node_name`.
+ */
+export function server_id_of(node_name: string) {
+  return `${master_of(node_name).username}.s.${node_name}`;
+}
+
+/**
+ * Get the `[[server]]` of the frp server id.
+ */
+export function server_config_of(server_id: string) {
+  return config.server.find((sc) => server_id_of(sc.node_name) === server_id);
+}
@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test";
+import { backends, run, test_keys } from "@/test/backends";
+import { SCRIPT_ACK, SCRIPT_CLAIM, SCRIPT_SCHEDULE } from "@/webhook";
+
+for (const b of backends()) {
+  describe(`webhook scripts (${b.name})`, () => {
+    test("claim due deliveries under a lease", async () => {
+      const k = test_keys("queue", "delivery");
+      await run(b, SCRIPT_SCHEDULE, [k.queue, k.delivery], ["d1", "one", 1000]);
+      await run(b, SCRIPT_SCHEDULE, [k.queue, k.delivery], ["d2", "two", 2000]);
+      await run(b, SCRIPT_SCHEDULE, [k.queue, k.delivery], ["d3", "three", 9000]);
+      expect(await run(b, SCRIPT_CLAIM, [k.queue, k.delivery], [2000, 5000, 10])).toEqual(["one", "two"]);
+      // leased until 7000
+      expect(await run(b, SCRIPT_CLAIM, [k.queue, k.delivery], [6000, 5000, 10])).toEqual([]);
+      expect(await run(b, SCRIPT_CLAIM, [k.queue, k.delivery], [7000, 5000, 1])).toEqual(["one"]);
+    });
+
+    test("ack removes the delivery, a dangling id is dropped", async () => {
+      const k = test_keys("queue", "delivery");
+      await run(b, SCRIPT_SCHEDULE, [k.queue, k.delivery], ["d1", "one", 1000]);
+      await run(b, SCRIPT_SCHEDULE, [k.queue, k.delivery], ["d2", "two", 1000]);
+      await run(b, SCRIPT_ACK, [k.queue, k.delivery], ["d1"]);
+      await b.storage.hdel(k.delivery, "d2");
+      expect(await run(b, SCRIPT_CLAIM, [k.queue, k.delivery], [1000, 5000, 10])).toEqual([]);
+      expect(await b.storage.hgetall(k.delivery)).toEqual({});
+    });
+  });
+}
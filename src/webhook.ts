@@ -0,0 +1,246 @@
+import { createHmac } from "node:crypto";
+import ky from "ky";
+import { nanoid } from "nanoid";
+import { Cache } from "@/cache";
+import CONFIG, { type WebhookConfig } from "@/config";
+import { define_script } from "@/storage";
+
+const cache = new Cache(CONFIG.cache);
+
+// * persistent delivery queue, shared by all replicas
+// webhook:queue -> zset { delivery_id: next_attempt_at_ms }
+// webhook:delivery -> hash { delivery_id: Delivery }
+
+export type WebhookEventType =
+  | "traffic.created"
+  | "traffic.extended"
+  | "traffic.updated"
+  | "traffic.deleted"
+  | "traffic.expired"
+  | "traffic.failed"
+  | "traffic.migrated";
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  /**
+   * seconds
+   */
+  timestamp: number;
+  traffic_id: string;
+  node_name: string | null;
+  server_id: string | null;
+  remote_addr: Record<string, string> | null;
+  /**
+   * seconds, for created and extended
+   */
+  expire_at?: number;
+  /**
+   * for failed
+   */
+  error?: string;
+  /**
+   * for migrated
+   */
+  previous_server_id?: string;
+}
+
+interface Delivery {
+  id: string;
+  url: string;
+  event: WebhookEvent;
+  attempts: number;
+}
+
+const LEASE_MS = 30000;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+// KEYS: queue, delivery
+// ARGV: now_ms, lease_ms, limit
+// claim due deliveries by pushing them back by a lease, so a crashed worker does not lose them
+export const SCRIPT_CLAIM = define_script(
+  `
+local ids = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[3]))
+local result = {}
+for _, id in ipairs(ids) do
+  local data = redis.call("HGET", KEYS[2], id)
+  if data then
+    redis.call("ZADD", KEYS[1], tonumber(ARGV[1]) + tonumber(ARGV[2]), id)
+    result[#result + 1] = data
+  else
+    redis.call("ZREM", KEYS[1], id)
+  end
+end
+return result
+`,
+  (db, [queue, delivery], [now, lease, limit]) => {
+    const result: string[] = [];
+    for (const id of db.zrangebyscore(queue!, Number.NEGATIVE_INFINITY, Number(now), Number(limit))) {
+      const data = db.hget(delivery!, id);
+      if (data) {
+        db.zadd(queue!, Number(now) + Number(lease), id);
+        result.push(data);
+      } else {
+        db.zrem(queue!, id);
+      }
+    }
+    return result;
+  }
+);
+
+// KEYS: queue, delivery
+// ARGV: id, data, at_ms
+export const SCRIPT_SCHEDULE = define_script(
+  `
+redis.call("HSET", KEYS[2], ARGV[1], ARGV[2])
+redis.call("ZADD", KEYS[1], ARGV[3], ARGV[1])
+return 1
+`,
+  (db, [queue, delivery], [id, data, at]) => {
+    db.hset(delivery!, id!, data!);
+    db.zadd(queue!, Number(at), id!);
+    return 1;
+  }
+);
+
+// KEYS: queue, delivery
+// ARGV: id
+export const SCRIPT_ACK = define_script(
+  `
+redis.call("ZREM", KEYS[1], ARGV[1])
+redis.call("HDEL", KEYS[2], ARGV[1])
+return 1
+`,
+  (db, [queue, delivery], [id]) => {
+    db.zrem(queue!, id!);
+    db.hdel(delivery!, id!);
+    return 1;
+  }
+);
+
+const KEY_QUEUE = cache.at("webhook").at("queue");
+const KEY_DELIVERY = cache.at("webhook").at("delivery");
+
+function webhooks(): WebhookConfig[] {
+  return CONFIG.webhook;
+}
+
+function webhook_of(url: string) {
+  return webhooks().find((w) => w.url === url);
+}
+
+/**
+ * `sha256=hex(hmac_sha256(secret, "{timestamp}.{body}"))`
+ */
+export function sign(secret: string, timestamp: number, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+async function send(delivery: Delivery) {
+  const webhook = webhook_of(delivery.url);
+  // webhook removed from config, drop it
+  if (!webhook) return;
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  await ky.post(delivery.url, {
+    body,
+    timeout: webhook.timeout,
+    retry: 0,
+    headers: {
+      "Content-Type": "application/json",
+      "X-Ret2shell-Event": delivery.event.type,
+      "X-Ret2shell-Delivery": delivery.id,
+      "X-Ret2shell-Timestamp": timestamp.toString(),
+      "X-Ret2shell-Signature": sign(webhook.secret, timestamp, body),
+    },
+  });
+}
+
+function backoff(attempts: number) {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempts - 1));
+  // jitter
+  return Math.floor(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Deliver once, reschedule on failure.
+ * @returns Next attempt time in ms, or null if done or dropped.
+ */
+async function attempt(delivery: Delivery): Promise<number | null> {
+  delivery.attempts++;
+  try {
+    await send(delivery);
+    return null;
+  } catch (e) {
+    const max_attempts = webhook_of(delivery.url)?.max_attempts ?? 1;
+    const reason = e instanceof Error ? e.message : String(e);
+    if (delivery.attempts >= max_attempts) {
+      console.error(
+        `Dropping webhook delivery: ${[`id=${delivery.id}`, `url=${delivery.url}`, `event=${delivery.event.type}`, `attempts=${delivery.attempts}`, `error=${reason}`].join(", ")}`
+      );
+      return null;
+    }
+    console.warn(
+      `Webhook delivery failed: ${[`id=${delivery.id}`, `url=${delivery.url}`, `attempts=${delivery.attempts}`, `error=${reason}`].join(", ")}`
+    );
+    return Date.now() + backoff(delivery.attempts);
+  }
+}
+
+async function handle(delivery: Delivery) {
+  const next_at = await attempt(delivery);
+  if (next_at === null) {
+    await cache.eval(SCRIPT_ACK, [KEY_QUEUE, KEY_DELIVERY], [delivery.id]);
+  } else {
+    await cache.eval(SCRIPT_SCHEDULE, [KEY_QUEUE, KEY_DELIVERY], [delivery.id, JSON.stringify(delivery), next_at]);
+  }
+}
+
+let wake: (() => void) | null = null;
+
+/**
+ * Queue the event to all subscribed webhooks, never throws.
+ */
+export async function emit(event: Omit<WebhookEvent, "id" | "timestamp">) {
+  const full: WebhookEvent = { id: nanoid(), timestamp: Math.floor(Date.now() / 1000), ...event };
+  for (const webhook of webhooks()) {
+    if (webhook.events?.length && !webhook.events.includes(event.type)) continue;
+    const delivery: Delivery = { id: nanoid(), url: webhook.url, event: full, attempts: 0 };
+    try {
+      await cache.eval(SCRIPT_SCHEDULE, [KEY_QUEUE, KEY_DELIVERY], [delivery.id, JSON.stringify(delivery), Date.now()]);
+    } catch (e) {
+      console.error("Error queuing webhook delivery:", e);
+    }
+  }
+  wake?.();
+}
+
+/**
+ * Poll the delivery queue in background.
+ */
+export function start_webhook_worker(poll_interval = 1000, batch = 16) {
+  const tick = async () => {
+    try {
+      // webhooks may be added by reloading config
+      while (webhooks().length) {
+        const reply = await cache.eval(SCRIPT_CLAIM, [KEY_QUEUE, KEY_DELIVERY], [Date.now(), LEASE_MS, batch]);
+        const deliveries = (reply as string[]).flatMap((data) => data.parseJSON<Delivery>() ?? []);
+        if (!deliveries.length) break;
+        await Promise.all(deliveries.map((d) => handle(d).catch(console.error)));
+      }
+    } catch (e) {
+      console.error("Error processing webhook queue:", e);
+    }
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, poll_interval);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    wake = null;
+    tick();
+  };
+  tick();
+}